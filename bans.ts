@@ -0,0 +1,152 @@
+import { hasFilePermission, readJsonFile, writeJsonFile } from "./file.ts";
+import { BANS_FILE_SCHEMA } from "./types.ts";
+
+/** A user that is banned from using the bot. */
+export type Ban = {
+  /** The username of the banned user. */
+  username: string;
+  /** When the ban ends, or `null` if it doesn't. */
+  until: Date | null;
+  /** Why the user is banned, or `null` if no reason was given. */
+  reason: string | null;
+};
+
+/** Options that can be passed into {@link RoarBot.prototype.ban}. */
+export type BanOptions = {
+  /** When the ban ends. By default, the ban doesn't end. */
+  until?: Date;
+  /** Why the user is banned. */
+  reason?: string;
+};
+
+/**
+ * Stores the bans of the bot so that they persist after restarting. Expired
+ * bans are removed by the bot, so stores don't have to check them.
+ */
+export type BanStore = {
+  /**
+   * Get the ban of a user.
+   * @param username The username of the user.
+   * @returns The ban, or `undefined` if the user isn't banned.
+   */
+  get(username: string): Promise<Ban | undefined>;
+  /**
+   * Store a ban, replacing any previous ban of the user.
+   * @param ban The ban.
+   */
+  set(ban: Ban): Promise<void>;
+  /**
+   * Remove the ban of a user.
+   * @param username The username of the user.
+   */
+  delete(username: string): Promise<void>;
+  /** Get all bans. */
+  list(): Promise<Ban[]>;
+};
+
+type StoredBan = {
+  username: string;
+  until: number | null;
+  reason: string | null;
+};
+
+/**
+ * A {@link BanStore} that keeps bans in a JSON file. This is the default ban
+ * store. If the bot doesn't run in Deno or doesn't have permission to read and
+ * write the file, bans are only kept while the process runs. If the file isn't
+ * valid JSON or doesn't have the expected format, it is ignored.
+ */
+export class FileBanStore implements BanStore {
+  private _path: string;
+  private _bans?: Promise<Map<string, Ban>>;
+  private _writing = Promise.resolve();
+
+  /**
+   * Create a file ban store.
+   * @param path The path of the file. By default, this is `.roarbot-bans.json`.
+   */
+  constructor(path = ".roarbot-bans.json") {
+    this._path = path;
+  }
+
+  private _read(): Promise<Map<string, Ban>> {
+    this._bans ??= this._load().catch((e) => {
+      this._bans = undefined;
+      throw e;
+    });
+    return this._bans;
+  }
+
+  private async _load(): Promise<Map<string, Ban>> {
+    const stored =
+      (await hasFilePermission("read", this._path)) ?
+        ((await readJsonFile(this._path, BANS_FILE_SCHEMA)) ?? [])
+      : [];
+    return new Map(
+      stored.map((ban) => [
+        ban.username.toLowerCase(),
+        { ...ban, until: ban.until === null ? null : new Date(ban.until) },
+      ]),
+    );
+  }
+
+  private _write(bans: Map<string, Ban>) {
+    this._writing = this._writing
+      .catch(() => {})
+      .then(async () => {
+        if (!(await hasFilePermission("write", this._path))) {
+          return;
+        }
+        const stored: StoredBan[] = [...bans.values()].map((ban) => ({
+          ...ban,
+          until: ban.until?.getTime() ?? null,
+        }));
+        await writeJsonFile(this._path, stored);
+      });
+    return this._writing;
+  }
+
+  async get(username: string): Promise<Ban | undefined> {
+    return (await this._read()).get(username.toLowerCase());
+  }
+
+  async set(ban: Ban) {
+    const bans = await this._read();
+    bans.set(ban.username.toLowerCase(), ban);
+    await this._write(bans);
+  }
+
+  async delete(username: string) {
+    const bans = await this._read();
+    if (bans.delete(username.toLowerCase())) {
+      await this._write(bans);
+    }
+  }
+
+  async list(): Promise<Ban[]> {
+    return [...(await this._read()).values()];
+  }
+}
+
+/** A {@link BanStore} that only keeps bans while the process runs. */
+export class MemoryBanStore implements BanStore {
+  private _bans = new Map<string, Ban>();
+
+  get(username: string): Promise<Ban | undefined> {
+    return Promise.resolve(this._bans.get(username.toLowerCase()));
+  }
+
+  set(ban: Ban): Promise<void> {
+    this._bans.set(ban.username.toLowerCase(), ban);
+    return Promise.resolve();
+  }
+
+  delete(username: string): Promise<void> {
+    this._bans.delete(username.toLowerCase());
+    return Promise.resolve();
+  }
+
+  list(): Promise<Ban[]> {
+    return Promise.resolve([...this._bans.values()]);
+  }
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { FileBanStore } from "./bans.ts";
+
+Deno.test("FileBanStore persists bans", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/bans.json`;
+  const until = new Date(Date.now() + 60000);
+  await new FileBanStore(path).set({ username: "Josh", until, reason: null });
+  assert.deepEqual(await new FileBanStore(path).get("josh"), {
+    username: "Josh",
+    until,
+    reason: null,
+  });
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileBanStore ignores invalid files", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/bans.json`;
+  await Deno.writeTextFile(path, `[{"username": "Jo`);
+  const store = new FileBanStore(path);
+  assert.deepEqual(await store.list(), []);
+  await store.set({ username: "Josh", until: null, reason: "Spam" });
+  assert.deepEqual(await new FileBanStore(path).list(), [
+    { username: "Josh", until: null, reason: "Spam" },
+  ]);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileBanStore keeps concurrent bans", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/bans.json`;
+  const store = new FileBanStore(path);
+  await Promise.all(
+    ["Josh", "Mallory", "Eve"].map((username) =>
+      store.set({ username, until: null, reason: null }),
+    ),
+  );
+  assert.equal((await store.list()).length, 3);
+  assert.equal((await new FileBanStore(path).list()).length, 3);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileBanStore ignores files with the wrong format", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/bans.json`;
+  for (const contents of ["{}", `[{ "username": 1 }]`]) {
+    await Deno.writeTextFile(path, contents);
+    assert.deepEqual(await new FileBanStore(path).list(), []);
+  }
+  await Deno.remove(dir, { recursive: true });
+});
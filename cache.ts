@@ -0,0 +1,125 @@
+import type { RichPost } from "./mod.ts";
+
+/**
+ * How the bot caches posts. Posts that haven't been used for the longest time
+ * are removed from the cache once it is full or after `ttl`. Removed posts
+ * are still used as long as they are referenced somewhere else, so listeners
+ * on them keep working.
+ */
+export type PostCacheOptions = {
+  /** How many posts are kept at most. By default, this is 1000. */
+  maxSize?: number;
+  /**
+   * How long a post is kept after it was last used, in milliseconds. By
+   * default, this is 3600000 (one hour).
+   */
+  ttl?: number;
+};
+
+/** Statistics about the post cache. */
+export type PostCacheMetrics = {
+  /** How many posts are cached. */
+  size: number;
+  /** How many times a post was found in the cache. */
+  hits: number;
+  /** How many times a post wasn't found in the cache. */
+  misses: number;
+  /** How many posts were removed because the cache was full or they expired. */
+  evictions: number;
+};
+
+/**
+ * The posts a bot knows about, available as {@link RoarBot.prototype.posts}.
+ * Every post only has one {@link RichPost} per bot, which is kept here.
+ */
+export class PostCache {
+  private _options: Required<PostCacheOptions>;
+  private _posts = new Map<string, { post: RichPost; usedAt: number }>();
+  private _evicted = new Map<string, WeakRef<RichPost>>();
+  private _registered = new WeakSet<RichPost>();
+  private _registry = new FinalizationRegistry<string>((id) => {
+    if (!this._evicted.get(id)?.deref()) {
+      this._evicted.delete(id);
+    }
+  });
+  private _metrics = { hits: 0, misses: 0, evictions: 0 };
+
+  /**
+   * Create a post cache.
+   * @param options Some options. See {@link PostCacheOptions} for details.
+   */
+  constructor(options?: PostCacheOptions) {
+    this._options = { maxSize: 1000, ttl: 1000 * 60 * 60, ...options };
+  }
+
+  /**
+   * Get a post.
+   * @param id The ID of the post.
+   * @returns The post, or `undefined` if it isn't known.
+   */
+  get(id: string): RichPost | undefined {
+    this._evictExpired();
+    const post = this._posts.get(id)?.post ?? this._evicted.get(id)?.deref();
+    if (!post) {
+      this._metrics.misses++;
+      return undefined;
+    }
+    this._metrics.hits++;
+    this.set(post);
+    return post;
+  }
+
+  /**
+   * Add a post, or mark it as recently used.
+   * @param post The post.
+   */
+  set(post: RichPost) {
+    this._posts.delete(post.id);
+    this._evicted.delete(post.id);
+    this._posts.set(post.id, { post, usedAt: Date.now() });
+    while (this._posts.size > this._options.maxSize) {
+      this._evict(this._posts.keys().next().value!);
+    }
+  }
+
+  /**
+   * Remove a post.
+   * @param id The ID of the post.
+   */
+  delete(id: string) {
+    this._posts.delete(id);
+    this._evicted.delete(id);
+  }
+
+  /** Remove all posts. */
+  clear() {
+    this._posts.clear();
+    this._evicted.clear();
+  }
+
+  /** Statistics about the cache. */
+  get metrics(): PostCacheMetrics {
+    return { size: this._posts.size, ...this._metrics };
+  }
+
+  private _evictExpired() {
+    const now = Date.now();
+    for (const [id, { usedAt }] of this._posts) {
+      if (now - usedAt < this._options.ttl) {
+        return;
+      }
+      this._evict(id);
+    }
+  }
+
+  private _evict(id: string) {
+    const post = this._posts.get(id)!.post;
+    this._posts.delete(id);
+    this._evicted.set(id, new WeakRef(post));
+    if (!this._registered.has(post)) {
+      this._registered.add(post);
+      this._registry.register(post, id);
+    }
+    this._metrics.evictions++;
+  }
+}
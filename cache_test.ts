@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { PostCache } from "./cache.ts";
+import type { RichPost } from "./mod.ts";
+
+const fakePost = (id: string) => ({ id }) as RichPost;
+
+Deno.test("PostCache evicts the least recently used post", () => {
+  const cache = new PostCache({ maxSize: 2 });
+  const a = fakePost("a");
+  cache.set(a);
+  cache.set(fakePost("b"));
+  cache.get("a");
+  cache.set(fakePost("c"));
+  assert.equal(cache.metrics.size, 2);
+  assert.equal(cache.metrics.evictions, 1);
+  assert.equal(cache.get("a"), a);
+  assert.equal(cache.get("c")?.id, "c");
+});
+
+Deno.test("PostCache evicts expired posts", () => {
+  const cache = new PostCache({ ttl: 0 });
+  cache.set(fakePost("a"));
+  cache.get("b");
+  assert.equal(cache.metrics.size, 0);
+  assert.equal(cache.metrics.evictions, 1);
+});
+
+Deno.test("PostCache keeps evicted posts that are still referenced", () => {
+  const cache = new PostCache({ maxSize: 1 });
+  const a = fakePost("a");
+  cache.set(a);
+  cache.set(fakePost("b"));
+  assert.equal(cache.get("a"), a);
+  assert.deepEqual(cache.metrics, {
+    size: 1,
+    hits: 1,
+    misses: 0,
+    evictions: 2,
+  });
+});
+
+Deno.test("PostCache counts hits and misses", () => {
+  const cache = new PostCache();
+  cache.set(fakePost("a"));
+  cache.get("a");
+  cache.get("b");
+  assert.equal(cache.metrics.hits, 1);
+  assert.equal(cache.metrics.misses, 1);
+});
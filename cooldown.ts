@@ -0,0 +1,96 @@
+import type { RichPost } from "./mod.ts";
+
+/**
+ * Limits how often a command can be used. Within any span of `duration`, the
+ * command can be used `burst` times.
+ */
+export type CooldownOptions = {
+  /**
+   * Who shares the cooldown. By default, this is `"user"`.
+   * - `user`: Every user has their own cooldown.
+   * - `chat`: Every chat has its own cooldown.
+   * - `global`: Everyone shares the same cooldown.
+   */
+  scope?: "user" | "chat" | "global";
+  /** The length of the cooldown in milliseconds. */
+  duration: number;
+  /** How many times the command can be used at once. By default, this is 1. */
+  burst?: number;
+  /** Whether administrators ignore the cooldown. */
+  adminsExempt?: boolean;
+};
+
+export class Cooldown {
+  private _options: Required<CooldownOptions>;
+  private _uses = new Map<string, number[]>();
+  private _sweptAt = 0;
+
+  constructor(options: CooldownOptions) {
+    this._options = {
+      scope: "user",
+      burst: 1,
+      adminsExempt: false,
+      ...options,
+    };
+  }
+
+  /**
+   * Use the cooldown for a post.
+   * @param post The post using the command.
+   * @returns How many milliseconds are left until the command can be used
+   * again, or 0 if it could be used. In that case, the use is recorded.
+   */
+  use(post: RichPost): number {
+    const key =
+      this._options.scope === "user" ? post.username.toLowerCase()
+      : this._options.scope === "chat" ? post.origin
+      : "";
+    const now = Date.now();
+    this._sweep(now);
+    const uses = (this._uses.get(key) ?? []).filter(
+      (usedAt) => now - usedAt < this._options.duration,
+    );
+    if (uses.length >= this._options.burst) {
+      this._uses.set(key, uses);
+      return uses[0] + this._options.duration - now;
+    }
+    uses.push(now);
+    this._uses.set(key, uses);
+    return 0;
+  }
+
+  get adminsExempt(): boolean {
+    return this._options.adminsExempt;
+  }
+
+  private _sweep(now: number) {
+    if (now - this._sweptAt < this._options.duration) {
+      return;
+    }
+    this._sweptAt = now;
+    for (const [key, uses] of this._uses) {
+      if (now - uses.at(-1)! >= this._options.duration) {
+        this._uses.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Turns a duration into a human readable format.
+ * @param duration The duration in milliseconds.
+ */
+export const formatDuration = (duration: number): string => {
+  const seconds = Math.ceil(duration / 1000);
+  const parts = [
+    [Math.floor(seconds / 3600), "h"],
+    [Math.floor(seconds / 60) % 60, "m"],
+    [seconds % 60, "s"],
+  ] as const;
+  return (
+    parts
+      .filter(([amount]) => amount !== 0)
+      .map(([amount, unit]) => `${amount}${unit}`)
+      .join(" ") || "0s"
+  );
+};
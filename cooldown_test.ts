@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { Cooldown, formatDuration } from "./cooldown.ts";
+import type { RichPost } from "./mod.ts";
+
+const fakePost = (username: string, origin = "home") =>
+  ({ username, origin }) as RichPost;
+
+Deno.test("Cooldown limits uses per user", () => {
+  const cooldown = new Cooldown({ duration: 60000, burst: 2 });
+  assert.equal(cooldown.use(fakePost("Josh")), 0);
+  assert.equal(cooldown.use(fakePost("josh")), 0);
+  assert.ok(cooldown.use(fakePost("Josh")) > 0);
+  assert.equal(cooldown.use(fakePost("Bear")), 0);
+});
+
+Deno.test("Cooldown forgets users whose uses expired", async () => {
+  const cooldown = new Cooldown({ duration: 10 });
+  cooldown.use(fakePost("Josh"));
+  cooldown.use(fakePost("Bear"));
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  cooldown.use(fakePost("Eve"));
+  assert.deepEqual([...cooldown["_uses"].keys()], ["eve"]);
+});
+
+Deno.test("formatDuration formats durations", () => {
+  assert.equal(formatDuration(0), "0s");
+  assert.equal(formatDuration(61000), "1m 1s");
+  assert.equal(formatDuration(3600000), "1h");
+});
@@ -0,0 +1,75 @@
+/**
+ * Check whether the bot may access a file. Outside of Deno, files are never
+ * accessed.
+ * @param name The kind of access.
+ * @param path The path of the file.
+ */
+export const hasFilePermission = async (
+  name: "read" | "write",
+  path: string,
+): Promise<boolean> =>
+  typeof Deno !== "undefined" &&
+  (await Deno.permissions.query({ name, path })).state === "granted";
+
+/**
+ * Read a JSON file.
+ * @param path The path of the file.
+ * @param schema The schema the contents have to match, if any.
+ * @returns The parsed contents, or `undefined` if the file doesn't exist, isn't
+ * valid JSON or doesn't match the schema.
+ * @throws If the file can't be read for another reason.
+ */
+export const readJsonFile = async <T = unknown>(
+  path: string,
+  schema?: {
+    safeParse(data: unknown): { success: true; data: T } | { success: false };
+  },
+): Promise<T | undefined> => {
+  let text;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw e;
+  }
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    console.warn(`${path} isn't valid JSON and is ignored.`);
+    return undefined;
+  }
+  if (!schema) {
+    return json;
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    console.warn(`${path} doesn't have the expected format and is ignored.`);
+    return undefined;
+  }
+  return parsed.data;
+};
+
+/**
+ * Write a JSON file. The contents are written to a temporary file first, so
+ * the file is never left half-written.
+ * @param path The path of the file.
+ * @param value The value to write.
+ * @param options Options for writing the file, like its mode.
+ */
+export const writeJsonFile = async (
+  path: string,
+  value: unknown,
+  options?: Deno.WriteFileOptions,
+) => {
+  const temporaryPath = `${path}.${crypto.randomUUID()}.tmp`;
+  try {
+    await Deno.writeTextFile(temporaryPath, JSON.stringify(value), options);
+    await Deno.rename(temporaryPath, path);
+  } catch (e) {
+    await Deno.remove(temporaryPath).catch(() => {});
+    throw e;
+  }
+};
@@ -0,0 +1,74 @@
+import type { Command, CommandOptions, Flags, Pattern } from "./mod.ts";
+
+/** Options that can be passed into {@link RoarBot.prototype.group}. */
+export type GroupOptions = {
+  /** Alternate names of the group. */
+  aliases?: string[];
+  /** The description of the group. This is shown in the help message. */
+  description?: string;
+  /** The category the group is in. This is shown in the help message. */
+  category?: string;
+  /** Whether all subcommands of this group are only usable by administrators. */
+  admin?: boolean;
+  /** The permissions needed to use any subcommand of this group. */
+  permissions?: string[];
+};
+
+export type CommandRegistry = {
+  command: <const TPattern extends Pattern, const TFlags extends Flags>(
+    commands: Command[],
+    name: string,
+    options: CommandOptions<TPattern, TFlags>,
+  ) => Command;
+  group: (commands: Command[], name: string, options: GroupOptions) => Command;
+};
+
+/**
+ * A group of subcommands, created with {@link RoarBot.prototype.group}.
+ */
+export class CommandGroup {
+  private _group: Command;
+  private _registry: CommandRegistry;
+
+  constructor(group: Command, registry: CommandRegistry) {
+    this._group = group;
+    this._registry = registry;
+  }
+
+  /**
+   * Register a new subcommand.
+   * @param name The name of the subcommand.
+   * @param options Some options. See {@link CommandOptions} for details.
+   * @throws If a subcommand with that name is already present.
+   */
+  command<
+    const TPattern extends Pattern,
+    const TFlags extends Flags = Record<never, never>,
+  >(name: string, options: CommandOptions<TPattern, TFlags>) {
+    this._registry.command(this._group.subcommands, name, options);
+  }
+
+  /**
+   * Register a new nested group of subcommands.
+   * @param name The name of the group.
+   * @param options Some options. See {@link GroupOptions} for details.
+   * @returns The nested group.
+   * @throws If a subcommand with that name is already present.
+   */
+  group(name: string, options?: GroupOptions): CommandGroup {
+    return new CommandGroup(
+      this._registry.group(this._group.subcommands, name, options ?? {}),
+      this._registry,
+    );
+  }
+
+  /** The name of the group. */
+  get name(): string {
+    return this._group.name;
+  }
+
+  /** The subcommands of the group. */
+  get subcommands(): Command[] {
+    return [...this._group.subcommands];
+  }
+}
@@ -0,0 +1,77 @@
+import type { Command, RichPost, RoarBot } from "./mod.ts";
+
+/** Information about a command that is being run, shared by middleware. */
+export type CommandContext = {
+  /** The bot running the command. */
+  bot: RoarBot;
+  /** The post that ran the command. */
+  post: RichPost;
+  /** Replies to the post that ran the command. */
+  reply: RichPost["reply"];
+  /** The command being run. */
+  command: Command;
+  /**
+   * The command being run, preceded by the groups it is in. For commands that
+   * aren't in a group, this only contains the command.
+   */
+  path: Command[];
+  /**
+   * The parsed arguments of the command. These are only available to
+   * middleware added with {@link RoarBot.prototype.use}.
+   */
+  args: unknown[];
+  /**
+   * The parsed flags of the command. These are only available to middleware
+   * added with {@link RoarBot.prototype.use}.
+   */
+  flags: Record<string, unknown>;
+  /** Any data middleware wants to pass on to later middleware. */
+  data: Record<string, unknown>;
+};
+
+/**
+ * A function that runs when a command is used. Calling `next` runs the
+ * following middleware and eventually the command. Not calling it stops the
+ * command from running.
+ * @param context Information about the command being run.
+ * @param next Runs the rest of the middleware and the command.
+ * @example
+ * ```ts
+ * bot.use(async (context, next) => {
+ *   const start = Date.now();
+ *   await next();
+ *   console.log(`${context.command.name} took ${Date.now() - start}ms`);
+ * });
+ * ```
+ */
+export type Middleware = (
+  context: CommandContext,
+  next: () => Promise<void>,
+) => void | Promise<void>;
+
+/**
+ * Run middleware in order, followed by a final function.
+ * @param middleware The middleware.
+ * @param context The context passed to the middleware.
+ * @param last Runs after all middleware called `next`.
+ * @throws If a middleware calls `next` more than once.
+ */
+export const runMiddleware = async (
+  middleware: Middleware[],
+  context: CommandContext,
+  last: () => void | Promise<void>,
+): Promise<void> => {
+  let index = -1;
+  const run = async (i: number): Promise<void> => {
+    if (i <= index) {
+      throw new Error("A middleware called next() more than once.");
+    }
+    index = i;
+    if (i === middleware.length) {
+      await last();
+      return;
+    }
+    await middleware[i](context, () => run(i + 1));
+  };
+  await run(0);
+};
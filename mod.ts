@@ -62,6 +62,8 @@
  */
 
 import {
+  VERSION,
+  JSR_UPDATE_URL,
   JSR_UPDATE,
   AUTH_PACKET_SCHEMA,
   LOGIN_SCHEMA,
@@ -75,18 +77,74 @@ import {
   type User,
 } from "./types.ts";
 import {
+  type Flags,
   type Pattern,
+  type ResolveFlags,
   type ResolvePattern,
+  type Token,
   parseArgs,
-  stringifyPatternType,
+  tokenize,
+  stringifyFlags,
+  stringifyPattern,
 } from "./patterns.ts";
 import { RichPost } from "./rich/post.ts";
+import {
+  CommandGroup,
+  type CommandRegistry,
+  type GroupOptions,
+} from "./group.ts";
+import { FileSessionStore, type SessionStore } from "./session.ts";
+import {
+  type Ban,
+  type BanOptions,
+  type BanStore,
+  FileBanStore,
+} from "./bans.ts";
+import { suggest } from "./suggest.ts";
+import { PostCache, type PostCacheOptions } from "./cache.ts";
+import type { AwaitOptions } from "./prompt.ts";
+import {
+  type CommandContext,
+  type Middleware,
+  runMiddleware,
+} from "./middleware.ts";
+import { BotStorage, FileStorage, type StorageAdapter } from "./storage.ts";
+import {
+  type PermissionCheck,
+  Permissions,
+  type RoleAssignments,
+  type Roles,
+} from "./permissions.ts";
+import { Cooldown, type CooldownOptions, formatDuration } from "./cooldown.ts";
+import {
+  PostQueue,
+  type RateLimitOptions,
+  type QueueMetrics,
+} from "./queue.ts";
 export type { Post, UploadsAttachment, Attachment, User } from "./types.ts";
 export * from "./patterns.ts";
 export * from "./rich/post.ts";
+export * from "./session.ts";
+export * from "./bans.ts";
+export * from "./storage.ts";
+export type { CommandContext, Middleware } from "./middleware.ts";
+export type {
+  AwaitOptions,
+  DialogStep,
+  PromptOptions,
+  ResolveDialog,
+} from "./prompt.ts";
+export { CommandGroup, type GroupOptions } from "./group.ts";
+export type { RateLimitOptions, QueueMetrics } from "./queue.ts";
+export type { CooldownOptions } from "./cooldown.ts";
+export {
+  PostCache,
+  type PostCacheMetrics,
+  type PostCacheOptions,
+} from "./cache.ts";
+export type { PermissionCheck, RoleAssignments, Roles } from "./permissions.ts";
 
 const ATTACMHENT_MAX_SIZE = 25 << 20;
-const version = "1.8.2";
 const logTimeFormat = new Intl.DateTimeFormat("en-US", {
   timeStyle: "medium",
   hour12: false,
@@ -101,106 +159,525 @@ export class RoarBot {
     post: [],
     updatePost: [],
     deletePost: [],
+    disconnect: [],
+    reconnecting: [],
+    reconnected: [],
+    reconnectFailed: [],
+    shutdown: [],
   };
   private _commands: Command[] = [];
+  private _handlers = new Map<Command, CommandHandler>();
+  private _registry: CommandRegistry = {
+    command: (commands, name, options) =>
+      this._registerCommand(commands, name, options),
+    group: (commands, name, options) =>
+      this._registerGroup(commands, name, options),
+  };
   private _username?: string;
   private _token?: string;
-  private _admins: string[];
+  private _password?: string;
+  private _permissions: Permissions;
   private _banned: string[];
+  private _bans: BanStore;
+  private _storage: BotStorage;
   private _ws?: WebSocket;
   private _messages: Messages;
   private _foundUpdate = false;
   private _loggingLevel: LoggingLevel;
+  private _endpoints: Endpoints;
+  private _transport: Transport;
+  private _reconnect: Required<ReconnectOptions>;
+  private _reconnectTimeout?: ReturnType<typeof setTimeout>;
+  private _status: ConnectionStatus = "disconnected";
+  private _updateInterval: ReturnType<typeof setInterval>;
+  private _running = new Set<Promise<void>>();
+  private _stopped = false;
+  private _middleware: Middleware[] = [];
+  private _once = new WeakMap<Events[keyof Events], Events[keyof Events]>();
+  private _waiters = new Set<{
+    filter: (post: RichPost) => boolean;
+    resolve: (post: RichPost | null) => void;
+  }>();
+  private _eventWaiters = new Set<() => void>();
+  private _session?: SessionStore;
+  private _queue: PostQueue;
+  private _posts: PostCache;
+  private _prefixes: string[];
+  private _chatPrefixes: Map<string, string[]>;
+  private _mentionlessChats: string[];
+  private _autoCorrect: boolean;
 
   /**
    * Create a bot.
    * @param options Some options. See {@link RoarBotOptions} for more details.
    */
   constructor(options?: RoarBotOptions) {
-    this._admins = options?.admins ?? [];
+    const roleAssignments = { ...options?.roleAssignments };
+    options?.admins?.forEach((admin) => {
+      roleAssignments[admin] = [...(roleAssignments[admin] ?? []), "admin"];
+    });
+    this._permissions = new Permissions(
+      options?.roles ?? {},
+      roleAssignments,
+      options?.chatRoleAssignments ?? {},
+      options?.checkPermission,
+    );
     this._banned = options?.banned ?? [];
+    this._bans = options?.bans ?? new FileBanStore();
+    this._storage = new BotStorage(options?.storage ?? new FileStorage());
     this._loggingLevel = options?.loggingLevel ?? "base";
+    const endpoints = {
+      api: "https://api.meower.org",
+      ws: "https://server.meower.org",
+      uploads: "https://uploads.meower.org",
+      ...options?.endpoints,
+    };
+    this._endpoints = {
+      api: endpoints.api.replace(/\/+$/, ""),
+      ws: endpoints.ws.replace(/\/+$/, ""),
+      uploads: endpoints.uploads.replace(/\/+$/, ""),
+    };
     this._messages = {
       noCommand: (command) => `The command ${command} doesn't exist!`,
+      noCommandSuggestions: (command, suggestions) =>
+        `The command ${command} doesn't exist! Did you mean ${suggestions}?`,
       helpDescription: "Shows this message.",
       helpOptional: "(optional)",
       helpCommands: "## Commands",
+      helpPage: (page, pages) => `_Page ${page} of ${pages}_`,
+      helpNoPage: (page) => `There is no page ${page}.`,
+      helpNavigation:
+        "_Reply with next, previous or a page number to switch pages._",
+      helpNext: "next",
+      helpPrevious: "previous",
+      helpAliases: (aliases) => `Aliases: ${aliases}`,
+      helpExamples: "Examples:",
+      helpAdmin: "Only administrators can use this command.",
+      helpPermissions: (permissions) => `Needs the permissions ${permissions}.`,
+      helpCooldown: (time) => `Cooldown: ${time}`,
       banned: "You are banned from using this bot.",
+      bannedDetails: (remaining, reason) =>
+        "You are banned from using this bot" +
+        (remaining ? ` for ${remaining}` : "") +
+        (reason ? `: ${reason}` : "."),
+      banAdded: (username) => `Banned ${username}.`,
+      banRemoved: (username) => `Unbanned ${username}.`,
+      notBanned: (username) => `${username} isn't banned.`,
+      banList: (bans) => (bans ? `## Bans\n${bans}` : "Nobody is banned."),
       adminLocked:
         "You can't use this command as it is limited to administrators.",
+      missingPermission: (permission) =>
+        `You need the ${permission} permission to use this command.`,
+      roleGranted: (username, role) => `Gave ${username} the role ${role}.`,
+      roleRevoked: (username, role) =>
+        `Took the role ${role} from ${username}.`,
+      roleNotFound: (role) => `The role ${role} doesn't exist.`,
+      roleNotAssigned: (username, role) =>
+        `${username} doesn't have the role ${role}.`,
+      roleGlobalLocked:
+        "You can only change roles in this chat. Use --here to do so.",
+      roleList: (username, roles) =>
+        roles ?
+          `${username} has the roles ${roles}.`
+        : `${username} has no roles.`,
       error: "💥 Something exploded. Check the console for more info!",
       argsMissing: (name) => `Missing ${name}.`,
+      argsTooFew: (name, min) => `${name} needs at least ${min} values.`,
       argsNotInSet: (string, set) => `${string} has to be one of ${set}.`,
       argNan: (string) => `${string} is not a number.`,
+      argNotInteger: (string) => `${string} is not a whole number.`,
+      argNotBoolean: (string) => `${string} is not yes or no.`,
+      argNoUser: (username) => `The user ${username} doesn't exist.`,
+      argNotDuration: (string) =>
+        `${string} is not a duration. Try something like 10m or 1h30m.`,
+      argNotDate: (string) =>
+        `${string} is not a date. Try something like 2024-11-08.`,
+      argNotUrl: (string) => `${string} is not a URL.`,
+      argNotChat: (string) => `${string} is not a chat.`,
+      unknownFlag: (flag) => `The flag ${flag} doesn't exist.`,
+      flagMissingValue: (flag) => `The flag ${flag} is missing a value.`,
       tooManyArgs: "You have too many arguments/replies.",
+      argsUsage: (usage) => `Usage: ${usage}`,
+      cooldown: (time) =>
+        `Please wait ${time} before using this command again.`,
+      promptCancel: "cancel",
+      promptCancelled: "Cancelled.",
+      promptTimeout: "You took too long to answer.",
       ...options?.messages,
     };
-    this._checkForUpdates();
-    setInterval(
-      () => {
-        this._checkForUpdates();
-      },
-      1000 * 60 * 60,
+    this._transport = {
+      fetch: (input, init) => fetch(input, init),
+      webSocket: (url) => new WebSocket(url),
+      ...options?.transport,
+    };
+    this._session =
+      options?.session === false ?
+        undefined
+      : (options?.session ?? new FileSessionStore());
+    this._queue = new PostQueue(options?.rateLimit);
+    this._posts = new PostCache(options?.postCache);
+    this._prefixes = options?.prefixes ?? [];
+    this._chatPrefixes = new Map(Object.entries(options?.chatPrefixes ?? {}));
+    this._mentionlessChats = options?.mentionlessChats ?? [];
+    this._autoCorrect = options?.autoCorrect ?? false;
+    this._reconnect = {
+      maxAttempts: Infinity,
+      baseDelay: 1000,
+      maxDelay: 60000,
+      jitter: 0.5,
+      ...options?.reconnect,
+    };
+    this._updateInterval = this._startUpdateChecks();
+    this.on("post", (reply, post) =>
+      this._track(() => this._dispatch(reply, post)),
     );
-    this.on("post", (reply, post) => {
-      const split = post.p.split(" ");
-      if (
-        split[0].toLowerCase() === `@${this._username}`.toLowerCase() &&
-        split[1] &&
-        !this._commands.find(
-          (command) =>
-            command.name === split[1] ||
-            command.aliases.some((alias) => alias === split[1]),
-        )
-      ) {
-        reply(this._messages.noCommand(JSON.stringify(split[1])));
-      }
-    });
-    if (!(options?.help ?? true)) {
-      return;
+    const help = options?.help ?? true;
+    if (help !== false) {
+      this._registerHelp(help === true ? {} : help);
     }
-    this.command("help", {
-      description: "Shows this message.",
+    if (options?.roleCommands) {
+      this._registerRoleCommands();
+    }
+    if (options?.banCommands) {
+      this._registerBanCommands();
+    }
+  }
+
+  private _registerBanCommands() {
+    this.command("ban", {
+      description: "Bans a user from using the bot.",
+      args: [
+        { type: "string", name: "user" },
+        { type: "full", name: "reason", optional: true },
+      ],
+      flags: {
+        for: { type: "duration", description: "How long the ban lasts." },
+      },
+      permissions: ["ban"],
+      fn: async (reply, [mention, reason], _post, { for: duration }) => {
+        const username = mention.replace(/^@/, "");
+        await this.ban(username, {
+          until:
+            duration === undefined ? undefined : (
+              new Date(Date.now() + duration)
+            ),
+          reason,
+        });
+        await reply(this._messages.banAdded(username));
+      },
+    });
+    this.command("unban", {
+      description: "Unbans a user.",
+      args: [{ type: "string", name: "user" }],
+      permissions: ["ban"],
+      fn: async (reply, [mention]) => {
+        const username = mention.replace(/^@/, "");
+        await reply(
+          (await this.unban(username)) ?
+            this._messages.banRemoved(username)
+          : this._messages.notBanned(username),
+        );
+      },
+    });
+    this.command("bans", {
+      description: "Lists the banned users.",
       args: [],
+      permissions: ["ban"],
       fn: async (reply) => {
-        const commands = Object.entries(
-          Object.groupBy(this._commands, (command) => command.category),
-        )
-          .map(
-            ([name, commands]) =>
-              (name === "None" ? "" : `### ${name}\n`) +
-              (commands ?? [])
-                .map((command) => {
-                  const pattern = command.pattern
-                    .map((patternType) =>
-                      (
-                        typeof patternType === "object" &&
-                        !Array.isArray(patternType)
-                      ) ?
-                        (patternType.optional ? "[" : "<") +
-                        (("name" in patternType ?
-                          `${patternType.name}: `
-                        : "") +
-                          stringifyPatternType(patternType.type)) +
-                        (patternType.optional ? "]" : ">")
-                      : `(${stringifyPatternType(patternType)})`,
-                    )
-                    .join(" ");
-                  return (
-                    (command.admin ? "🔒 " : "") +
-                    `@${this.username} ${command.name} ${pattern}` +
-                    (command.description ? `\n_${command.description}_` : "") +
-                    (command.aliases.length !== 0 ?
-                      `\n_Aliases: ${command.aliases.join(", ")}_\n`
-                    : "\n")
-                  );
-                })
-                .join("\n"),
+        await reply(
+          this._messages.banList(
+            (await this.getBans())
+              .map(
+                (ban) =>
+                  `- ${ban.username}` +
+                  (ban.until ?
+                    ` (${formatDuration(ban.until.getTime() - Date.now())})`
+                  : "") +
+                  (ban.reason ? `: ${ban.reason}` : ""),
+              )
+              .join("\n"),
+          ),
+        );
+      },
+    });
+  }
+
+  private _registerRoleCommands() {
+    const role = this.group("role", {
+      description: "Manages the roles of users.",
+      admin: true,
+    });
+    const flags = { here: { description: "Only in this chat." } };
+    role.command("grant", {
+      description: "Gives a user a role.",
+      args: [
+        { type: "string", name: "user" },
+        { type: "string", name: "role" },
+      ],
+      flags,
+      fn: async (reply, [mention, name], post, { here }) => {
+        const username = mention.replace(/^@/, "");
+        if (!here && !(await this.hasPermission(post.username, "admin"))) {
+          await reply(this._messages.roleGlobalLocked);
+          return;
+        }
+        if (!this._permissions.exists(name)) {
+          await reply(this._messages.roleNotFound(name));
+          return;
+        }
+        this.grantRole(username, name, here ? post.origin : undefined);
+        await reply(this._messages.roleGranted(username, name));
+      },
+    });
+    role.command("revoke", {
+      description: "Takes a role from a user.",
+      args: [
+        { type: "string", name: "user" },
+        { type: "string", name: "role" },
+      ],
+      flags,
+      fn: async (reply, [mention, name], post, { here }) => {
+        const username = mention.replace(/^@/, "");
+        if (!here && !(await this.hasPermission(post.username, "admin"))) {
+          await reply(this._messages.roleGlobalLocked);
+          return;
+        }
+        await reply(
+          this.revokeRole(username, name, here ? post.origin : undefined) ?
+            this._messages.roleRevoked(username, name)
+          : this._messages.roleNotAssigned(username, name),
+        );
+      },
+    });
+    role.command("list", {
+      description: "Lists the roles of a user.",
+      args: [{ type: "string", name: "user" }],
+      flags,
+      fn: async (reply, [mention], post, { here }) => {
+        const username = mention.replace(/^@/, "");
+        await reply(
+          this._messages.roleList(
+            username,
+            this.getRoles(username, here ? post.origin : undefined).join(", "),
+          ),
+        );
+      },
+    });
+  }
+
+  private _registerHelp(options: HelpOptions) {
+    const help: Required<HelpOptions> = {
+      pageSize: 10,
+      byCategory: false,
+      navigation: false,
+      ...options,
+    };
+    const sentPages = new Map<
+      string,
+      { category: string | null; page: number }
+    >();
+    const sendPage = async (
+      reply: RichPost["reply"],
+      category: string | null,
+      page: number,
+    ) => {
+      const pages = this._splitHelp(
+        category === null ?
+          this._commands
+        : this._commands.filter(
+            (command) =>
+              command.category.toLowerCase() === category.toLowerCase(),
+          ),
+        help,
+      );
+      if (page < 1 || page > pages.length) {
+        await reply(this._messages.helpNoPage(page));
+        return;
+      }
+      const post = await reply(
+        `${this._messages.helpCommands}\n${this._renderHelpPage(pages[page - 1])}` +
+          (pages.length > 1 ?
+            `\n${this._messages.helpPage(page, pages.length)}` +
+            (help.navigation ? `\n${this._messages.helpNavigation}` : "")
+          : ""),
+      );
+      if (help.navigation && pages.length > 1) {
+        sentPages.set(post.id, { category, page });
+        if (sentPages.size > 100) {
+          sentPages.delete(sentPages.keys().next().value!);
+        }
+      }
+    };
+    this.command("help", {
+      description: this._messages.helpDescription,
+      args: [{ type: "full", name: "command", optional: true }],
+      fn: async (reply, [name]) => {
+        if (!name) {
+          await sendPage(reply, null, 1);
+          return;
+        }
+        const words = tokenize(name).map((token) => token.value);
+        const { path, rest } = this._findCommand(words);
+        if (path.length !== 0 && rest.length === 0) {
+          await reply(this._renderCommandHelp(path.at(-1)!, path.slice(0, -1)));
+          return;
+        }
+        const page =
+          /^\d+$/.test(words.at(-1) ?? "") ? Number(words.at(-1)) : null;
+        const category = words
+          .slice(0, page === null ? undefined : -1)
+          .join(" ");
+        if (category === "") {
+          await sendPage(reply, null, page ?? 1);
+          return;
+        }
+        if (
+          this._commands.some(
+            (command) =>
+              command.category.toLowerCase() === category.toLowerCase(),
           )
-          .join("\n");
-        await reply(`${this._messages.helpCommands}\n${commands}`);
+        ) {
+          await sendPage(reply, category, page ?? 1);
+          return;
+        }
+        await reply(
+          this._noCommandMessage(
+            words,
+            path,
+            this._suggest(path, words[path.length] ?? ""),
+          ),
+        );
       },
     });
+    if (!help.navigation) {
+      return;
+    }
+    this.on("post", (reply, post) => {
+      const sent = post.replyTo.find(
+        (reply) => reply && sentPages.has(reply.id),
+      );
+      if (!sent || post.username === this.username) {
+        return;
+      }
+      const { category, page } = sentPages.get(sent.id)!;
+      const content = post.content.trim().toLowerCase();
+      const target =
+        content === this._messages.helpNext.toLowerCase() ? page + 1
+        : content === this._messages.helpPrevious.toLowerCase() ? page - 1
+        : /^\d+$/.test(content) ? Number(content)
+        : null;
+      if (target !== null) {
+        this._track(() => sendPage(reply, category, target));
+      }
+    });
+  }
+
+  private _splitHelp(commands: Command[], options: Required<HelpOptions>) {
+    const categories = Object.values(
+      Object.groupBy(commands, (command) => command.category),
+    ).map((commands) => commands ?? []);
+    if (options.byCategory) {
+      return categories;
+    }
+    const flat = categories.flat();
+    return Array.from(
+      { length: Math.ceil(flat.length / options.pageSize) },
+      (_, i) => flat.slice(i * options.pageSize, (i + 1) * options.pageSize),
+    );
+  }
+
+  private _renderHelpPage(commands: Command[]) {
+    return Object.entries(
+      Object.groupBy(commands, (command) => command.category),
+    )
+      .map(
+        ([name, commands]) =>
+          (name === "None" ? "" : `### ${name}\n`) +
+          (commands ?? [])
+            .map((command) => this._renderHelp(command, []))
+            .join("\n"),
+      )
+      .join("\n");
+  }
+
+  private _renderUsage(command: Command, parents: Command[]) {
+    return [
+      `@${this.username}`,
+      ...[...parents, command].map((command) => command.name),
+      command.subcommands.length !== 0 ?
+        "<subcommand>"
+      : stringifyPattern(command.pattern),
+      stringifyFlags(command.flags),
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  private _renderFlagDescriptions(command: Command) {
+    return Object.entries(command.flags)
+      .filter(([, flag]) => flag.description)
+      .map(([name, flag]) => `\n_--${name}: ${flag.description}_`)
+      .join("");
+  }
+
+  private _renderHelp(
+    command: Command,
+    parents: Command[],
+    nested = false,
+  ): string {
+    return (
+      (nested ? "↳ " : "") +
+      (command.admin || command.permissions.length !== 0 ? "🔒 " : "") +
+      this._renderUsage(command, parents) +
+      (command.description ? `\n_${command.description}_` : "") +
+      this._renderFlagDescriptions(command) +
+      (command.aliases.length !== 0 ?
+        `\n_${this._messages.helpAliases(command.aliases.join(", "))}_\n`
+      : "\n") +
+      command.subcommands
+        .map((subcommand) =>
+          this._renderHelp(subcommand, [...parents, command], true),
+        )
+        .join("")
+    );
+  }
+
+  private _renderCommandHelp(command: Command, parents: Command[]): string {
+    const name = [...parents, command].map((command) => command.name).join(" ");
+    return [
+      `## ${name}`,
+      (command.description ? `_${command.description}_\n` : "") +
+        this._renderUsage(command, parents) +
+        this._renderFlagDescriptions(command),
+      command.aliases.length !== 0 &&
+        this._messages.helpAliases(command.aliases.join(", ")),
+      [...parents, command].some((command) => command.admin) &&
+        `🔒 ${this._messages.helpAdmin}`,
+      this._requiredPermissions([...parents, command]).some(
+        (permission) => permission !== "admin",
+      ) &&
+        `🔒 ${this._messages.helpPermissions(
+          this._requiredPermissions([...parents, command])
+            .filter((permission) => permission !== "admin")
+            .join(", "),
+        )}`,
+      command.cooldown &&
+        this._messages.helpCooldown(formatDuration(command.cooldown.duration)),
+      command.examples.length !== 0 &&
+        `${this._messages.helpExamples}\n` +
+          command.examples
+            .map((example) => `- @${this.username} ${example}`)
+            .join("\n"),
+      command.subcommands.length !== 0 &&
+        command.subcommands
+          .map((subcommand) =>
+            this._renderHelp(subcommand, [...parents, command], true),
+          )
+          .join("")
+          .trimEnd(),
+    ]
+      .filter(Boolean)
+      .join("\n");
   }
 
   private _log(
@@ -224,6 +701,16 @@ export class RoarBot {
     }
   }
 
+  private _startUpdateChecks() {
+    this._checkForUpdates();
+    return setInterval(
+      () => {
+        this._checkForUpdates();
+      },
+      1000 * 60 * 60,
+    );
+  }
+
   private async _checkForUpdates() {
     if (this._foundUpdate) {
       return;
@@ -231,11 +718,11 @@ export class RoarBot {
     this._log("info", "Checking for RoarBot updates...");
     try {
       const response = JSR_UPDATE.parse(
-        await (await fetch("https://jsr.io/@mbw/roarbot/meta.json")).json(),
+        await (await this._transport.fetch(JSR_UPDATE_URL)).json(),
       );
-      if (version !== response.latest) {
+      if (VERSION !== response.latest) {
         console.log(
-          `A new RoarBot version is available! ${version} → ${response.latest}\nSee the changelog for the changes: https://github.com/mybearworld/roarbot/blob/main/CHANGELOG.md`,
+          `A new RoarBot version is available! ${VERSION} → ${response.latest}\nSee the changelog for the changes: https://github.com/mybearworld/roarbot/blob/main/CHANGELOG.md`,
         );
       }
       this._foundUpdate = true;
@@ -267,30 +754,98 @@ export class RoarBot {
     if (this._token) {
       throw new Error("This bot is already logged in.");
     }
-    const response = LOGIN_SCHEMA.parse(
-      await (
-        await fetch(`https://api.meower.org/auth/login`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ username, password }),
-        })
-      ).json(),
-    );
+    const storedToken = await this._getSession(username);
+    if (storedToken) {
+      this._log("success", "Found a stored session.");
+      this._start(username, storedToken, password);
+      return;
+    }
+    const response = await this._requestToken(username, password);
     if (response.error) {
       throw new Error(
         `Couldn't log in: ${response.type}. Ensure that you have the correct password!`,
       );
     }
     this._log("success", "Recieved initial token.");
+    this._start(username, response.token, password);
+  }
+
+  /**
+   * Log into an account with an existing token and start the bot. Unlike
+   * {@link RoarBot.prototype.login}, the token doesn't get invalidated. If the
+   * token is rejected, the bot can't log in again on its own.
+   * @param username The username of the account the bot should log into.
+   * @param token The token of the account.
+   * @throws When the bot is already logged in.
+   * @example
+   * ```js
+   * const bot = new RoarBot();
+   * bot.loginWithToken("BearBot", Deno.env.get("BEARBOT_TOKEN"));
+   * ```
+   */
+  loginWithToken(username: string, token: string) {
+    this._log("info", `Trying to log into ${username} with a token...`);
+    if (this._token) {
+      throw new Error("This bot is already logged in.");
+    }
+    this._start(username, token);
+  }
+
+  private _start(username: string, token: string, password?: string) {
+    this._password = password;
+    if (this._stopped) {
+      this._stopped = false;
+      this._updateInterval = this._startUpdateChecks();
+    }
     this._log("info", "Connecting to Meower...");
-    this._connectWebSocket(username, response.token);
+    this._connectWebSocket(username, token);
+  }
+
+  private async _getSession(username: string) {
+    try {
+      return await this._session?.get(username);
+    } catch (e) {
+      this._log("error", "Couldn't read the stored session.", e);
+    }
+  }
+
+  private async _setSession(username: string, token?: string) {
+    try {
+      await (token ?
+        this._session?.set(username, token)
+      : this._session?.delete(username));
+    } catch (e) {
+      this._log("error", "Couldn't update the stored session.", e);
+    }
+  }
+
+  private async _requestToken(username: string, password: string) {
+    return LOGIN_SCHEMA.parse(
+      await (
+        await this._transport.fetch(`${this._endpoints.api}/auth/login`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username, password }),
+        })
+      ).json(),
+    );
   }
 
-  private _connectWebSocket(username: string, initialToken: string) {
-    const ws = new WebSocket(
-      `https://server.meower.org?v=1&token=${initialToken}`,
+  private _connectWebSocket(
+    username: string,
+    initialToken: string,
+    attempt = 0,
+  ) {
+    this._status = attempt === 0 ? "connecting" : "reconnecting";
+    const ws = this._transport.webSocket(
+      `${this._endpoints.ws}?v=1&token=${initialToken}`,
     );
     this._ws = ws;
+    let opened = false;
+    let authenticated = false;
+    ws.addEventListener("open", () => {
+      opened = true;
+    });
     ws.addEventListener("message", ({ data }) => {
       this._log("ws", data);
     });
@@ -300,10 +855,17 @@ export class RoarBot {
         return;
       }
       const token = parsed.data.val.token;
+      authenticated = true;
+      this._status = "connected";
       this._log("success", "Recieved token. Logged in successfully!");
       this._username = username;
       this._token = token;
+      this._setSession(username, token);
       this._events.login.forEach((callback) => callback(token));
+      if (attempt !== 0) {
+        this._log("success", "Reconnected successfully.");
+        this._events.reconnected.forEach((callback) => callback());
+      }
     });
     ws.addEventListener("message", ({ data }) => {
       const parsed = POST_PACKET_SCHEMA.safeParse(JSON.parse(data));
@@ -334,27 +896,309 @@ export class RoarBot {
         callback(parsed.data.val.post_id),
       );
     });
-    ws.addEventListener("close", () => {
-      this._log("info", "Disconnected. Attempting to reconnect...");
-      if (!this._token) {
-        this._log("error", "No token available to reconnect.");
+    ws.addEventListener("close", ({ code, reason }) => {
+      if (this._ws !== ws) {
         return;
       }
-      this._connectWebSocket(username, this._token);
+      if (authenticated) {
+        this._events.disconnect.forEach((callback) => callback(code, reason));
+      }
+      this._scheduleReconnect(
+        username,
+        this._token ?? initialToken,
+        authenticated ? 1 : attempt + 1,
+        opened && !authenticated,
+      );
     });
   }
 
+  private _scheduleReconnect(
+    username: string,
+    token: string,
+    attempt: number,
+    tokenRejected: boolean,
+  ) {
+    const giveUp = (message: string) => {
+      this._status = "disconnected";
+      this._log("error", message);
+      this._events.reconnectFailed.forEach((callback) => callback());
+    };
+    if (attempt > this._reconnect.maxAttempts) {
+      giveUp(`Couldn't reconnect after ${attempt - 1} attempts. Giving up.`);
+      return;
+    }
+    const delay =
+      Math.min(
+        this._reconnect.maxDelay,
+        this._reconnect.baseDelay * 2 ** (attempt - 1),
+      ) *
+      (1 - this._reconnect.jitter * Math.random());
+    this._status = "reconnecting";
+    this._log(
+      "info",
+      `Disconnected. Attempting to reconnect in ${Math.round(delay)}ms (attempt ${attempt})...`,
+    );
+    this._events.reconnecting.forEach((callback) => callback(attempt, delay));
+    this._reconnectTimeout = setTimeout(async () => {
+      this._reconnectTimeout = undefined;
+      if (tokenRejected) {
+        this._setSession(username);
+        if (!this._password) {
+          giveUp(
+            "The token was rejected and there is no password to log in again.",
+          );
+          return;
+        }
+        this._log("info", "The token was rejected. Logging in again...");
+        try {
+          const response = await this._requestToken(username, this._password);
+          if (this._stopped) {
+            return;
+          }
+          if (response.error) {
+            giveUp(`Couldn't log in again: ${response.type}.`);
+            return;
+          }
+          token = response.token;
+        } catch (e) {
+          this._log("error", "Couldn't log in again.", e);
+          this._scheduleReconnect(username, token, attempt + 1, true);
+          return;
+        }
+      }
+      this._connectWebSocket(username, token, attempt);
+    }, delay);
+  }
+
+  /**
+   * Stop the bot. This closes the connection without reconnecting, stops
+   * checking for updates and waits for running commands to finish. The bot can
+   * log in again afterwards.
+   * @param options Some options. See {@link StopOptions} for more details.
+   * @throws If the token should be revoked and the API returns an error.
+   * @example
+   * ```ts
+   * Deno.addSignalListener("SIGTERM", async () => {
+   *   await bot.stop();
+   *   Deno.exit();
+   * });
+   * ```
+   */
+  async stop(options?: StopOptions) {
+    this._log("info", "Stopping...");
+    this._stopped = true;
+    clearInterval(this._updateInterval);
+    clearTimeout(this._reconnectTimeout);
+    this._reconnectTimeout = undefined;
+    const ws = this._ws;
+    this._ws = undefined;
+    ws?.close();
+    this._status = "disconnected";
+    this._waiters.forEach((waiter) => waiter.resolve(null));
+    this._eventWaiters.forEach((cancel) => cancel());
+    if (this._running.size !== 0) {
+      this._log(
+        "info",
+        `Waiting for ${this._running.size} running command(s) to finish...`,
+      );
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const finished = await Promise.race([
+        Promise.allSettled(this._running).then(() => true),
+        new Promise<false>((resolve) => {
+          timeoutId = setTimeout(
+            () => resolve(false),
+            options?.timeout ?? 10000,
+          );
+        }),
+      ]);
+      clearTimeout(timeoutId);
+      if (!finished) {
+        this._log(
+          "error",
+          `${this._running.size} command(s) didn't finish in time.`,
+        );
+      }
+    }
+    const token = this._token;
+    const username = this._username;
+    this._username = undefined;
+    this._token = undefined;
+    this._password = undefined;
+    try {
+      if (options?.revokeToken && token) {
+        const response = await this._transport.fetch(
+          `${this._endpoints.api}/me/tokens`,
+          { method: "DELETE", headers: { Token: token } },
+        );
+        if (!response.ok) {
+          throw new Error(
+            `Couldn't revoke the token. The API returned ${response.status}`,
+          );
+        }
+        this._log("success", "Revoked the token.");
+        if (username) {
+          await this._setSession(username);
+        }
+      }
+    } finally {
+      this._log("success", "Stopped.");
+      this._events.shutdown.forEach((callback) => callback());
+    }
+  }
+
+  /**
+   * Stop the bot and revoke its token. This is the same as calling
+   * {@link RoarBot.prototype.stop} with `revokeToken` set.
+   * @param options Some options. See {@link StopOptions} for more details.
+   * @throws If the API returns an error.
+   */
+  async logout(options?: Omit<StopOptions, "revokeToken">) {
+    await this.stop({ ...options, revokeToken: true });
+  }
+
   /**
    * Listen to an event that occurs.
    * @param event The event to listen for.
    * @param callback The callback to execute when the event fires.
+   * @returns A function that stops listening.
    * @example
    * ```ts
    * bot.on("login", () => console.log("Hooray!"));
    * ```
    */
-  on<TEvent extends keyof Events>(event: TEvent, callback: Events[TEvent]) {
+  on<TEvent extends keyof Events>(
+    event: TEvent,
+    callback: Events[TEvent],
+  ): () => void {
     this._events[event].push(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Stop listening to an event.
+   * @param event The event that was listened to.
+   * @param callback The callback that was passed into
+   * {@link RoarBot.prototype.on} or {@link RoarBot.prototype.once}.
+   */
+  off<TEvent extends keyof Events>(event: TEvent, callback: Events[TEvent]) {
+    (this._events[event] as Events[TEvent][]) = this._events[event].filter(
+      (other) => other !== callback && this._once.get(other) !== callback,
+    );
+  }
+
+  /**
+   * Listen to the next time an event occurs.
+   * @param event The event to listen for.
+   * @param callback The callback to execute when the event fires.
+   * @returns A function that stops listening.
+   */
+  once<TEvent extends keyof Events>(
+    event: TEvent,
+    callback: Events[TEvent],
+  ): () => void {
+    const wrapper = ((...args: Parameters<Events[TEvent]>) => {
+      this.off(event, wrapper);
+      (callback as (...args: Parameters<Events[TEvent]>) => void)(...args);
+    }) as Events[TEvent];
+    this._once.set(wrapper, callback);
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Wait for an event to occur.
+   * @param event The event to wait for.
+   * @param filter Decides whether the event is the one being waited for. It
+   * receives the same arguments as callbacks of the event.
+   * @param options Some options. See {@link AwaitOptions} for details.
+   * @returns The arguments of the event, or `null` if it didn't occur in time
+   * or the bot stopped.
+   * @example
+   * ```ts
+   * const result = await bot.waitFor(
+   *   "deletePost",
+   *   (id) => id === post.id,
+   * );
+   * ```
+   */
+  waitFor<TEvent extends keyof Events>(
+    event: TEvent,
+    filter?: (...args: Parameters<Events[TEvent]>) => boolean,
+    options?: AwaitOptions,
+  ): Promise<Parameters<Events[TEvent]> | null> {
+    return new Promise((resolve) => {
+      const settle = (args: Parameters<Events[TEvent]> | null) => {
+        off();
+        clearTimeout(timeoutId);
+        this._eventWaiters.delete(cancel);
+        resolve(args);
+      };
+      const cancel = () => settle(null);
+      const off = this.on(event, ((...args: Parameters<Events[TEvent]>) => {
+        if (filter && !filter(...args)) {
+          return;
+        }
+        settle(args);
+      }) as Events[TEvent]);
+      const timeoutId = setTimeout(cancel, options?.timeout ?? 60000);
+      // The shutdown event fires after stopping, so waiting for it isn't
+      // cancelled.
+      if (event !== "shutdown") {
+        this._eventWaiters.add(cancel);
+      }
+    });
+  }
+
+  /**
+   * Iterate over the occurences of an event. The iteration ends when the bot
+   * is stopped.
+   * @param event The event to iterate over.
+   * @param filter Decides whether to include an occurence. It receives the
+   * same arguments as callbacks of the event.
+   * @returns The arguments of every occurence of the event.
+   * @example
+   * ```ts
+   * for await (const [reply, post] of bot.stream(
+   *   "post",
+   *   (_reply, post) => post.origin === "home",
+   * )) {
+   *   await reply(`Hi, ${post.username}!`);
+   * }
+   * ```
+   */
+  async *stream<TEvent extends keyof Events>(
+    event: TEvent,
+    filter?: (...args: Parameters<Events[TEvent]>) => boolean,
+  ): AsyncGenerator<Parameters<Events[TEvent]>, void, undefined> {
+    const queue: Parameters<Events[TEvent]>[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    const offEvent = this.on(event, ((...args: Parameters<Events[TEvent]>) => {
+      if (!filter || filter(...args)) {
+        queue.push(args);
+        wake?.();
+      }
+    }) as Events[TEvent]);
+    const offShutdown = this.on("shutdown", () => {
+      done = true;
+      wake?.();
+    });
+    try {
+      while (true) {
+        while (queue.length !== 0) {
+          yield queue.shift()!;
+        }
+        if (done) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = undefined;
+      }
+    } finally {
+      offEvent();
+      offShutdown();
+    }
   }
 
   /**
@@ -366,38 +1210,45 @@ export class RoarBot {
    * @throws If the API returns an error.
    * @throws If {@link RoarBot.prototype.uploadFile} fails.
    * @returns The resulting post. This might be returned later than the post
-   * will be appearing via the socket.
+   * will be appearing via the socket. Posts are queued to respect rate limits,
+   * see {@link RoarBotOptions.rateLimit}.
    */
   async post(content: string, options?: PostOptions): Promise<RichPost> {
-    if (!this._token) {
+    const token = this._token;
+    if (!token) {
       throw new Error("The bot is not logged in.");
     }
+    const chat = options?.chat ?? "home";
+    // Uploads start right away, but the post waits for them in its place in
+    // the queue so that posts to a chat keep their order.
+    const attachments = Promise.all(
+      (options?.attachments ?? []).map((attachment) =>
+        typeof attachment === "string" ? attachment : (
+          this.upload(attachment).then((attachment) => attachment.id)
+        ),
+      ),
+    );
+    attachments.catch(() => {});
     const response = API_POST_SCHEMA.parse(
       await (
-        await fetch(
-          `https://api.meower.org/${
-            !options?.chat || options?.chat === "home" ?
-              "home"
-            : `posts/${options?.chat}`
-          }`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Token: this._token,
+        await this._queue.enqueue(chat, async () =>
+          this._transport.fetch(
+            `${this._endpoints.api}/${
+              chat === "home" ? "home" : `posts/${chat}`
+            }`,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+                Token: token,
+              },
+              body: JSON.stringify({
+                content,
+                reply_to: options?.replies,
+                attachments: await attachments,
+              }),
             },
-            body: JSON.stringify({
-              content,
-              reply_to: options?.replies,
-              attachments: await Promise.all(
-                (options?.attachments ?? []).map((attachment) =>
-                  typeof attachment === "string" ? attachment : (
-                    this.upload(attachment).then((attachment) => attachment.id)
-                  ),
-                ),
-              ),
-            }),
-          },
+          ),
         )
       ).json(),
     );
@@ -416,8 +1267,8 @@ export class RoarBot {
   async user(username: string): Promise<User> {
     const response = API_USER_SCHEMA.parse(
       await (
-        await fetch(
-          `https://api.meower.org/users/${encodeURIComponent(username)}`,
+        await this._transport.fetch(
+          `${this._endpoints.api}/users/${encodeURIComponent(username)}`,
         )
       ).json(),
     );
@@ -427,6 +1278,28 @@ export class RoarBot {
     return response;
   }
 
+  /**
+   * Show that the bot is typing in a chat. Meower shows this for a few
+   * seconds.
+   * @param chat The chat to type in. By default, this is `home`.
+   * @throws If the bot is not logged in.
+   * @throws If the API returns an error.
+   */
+  async typing(chat = "home") {
+    if (!this._token) {
+      throw new Error("The bot is not logged in.");
+    }
+    const response = await this._transport.fetch(
+      `${this._endpoints.api}/${chat === "home" ? "home" : `chats/${chat}`}/typing`,
+      { method: "POST", headers: { Token: this._token } },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Couldn't show typing. The API returned ${response.status}`,
+      );
+    }
+  }
+
   /**
    * Upload an attachment to Meower for use in posts.
    * @param file The file to upload.
@@ -448,7 +1321,7 @@ export class RoarBot {
     form.set("file", file);
     const response = UPLOADS_ATTACHMENT_SCHEMA.parse(
       await (
-        await fetch("https://uploads.meower.org/attachments", {
+        await this._transport.fetch(`${this._endpoints.uploads}/attachments`, {
           method: "POST",
           body: form,
           headers: { Authorization: this._token },
@@ -475,20 +1348,23 @@ export class RoarBot {
     if (!this._token) {
       throw new Error("The bot is not logged in.");
     }
-    const response = await fetch("https://api.meower.org/me/config", {
-      method: "PATCH",
-      headers: {
-        Token: this._token,
-        "Content-Type": "application/json",
+    const response = await this._transport.fetch(
+      `${this._endpoints.api}/me/config`,
+      {
+        method: "PATCH",
+        headers: {
+          Token: this._token,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...options,
+          avatar_color: options.avatarColor,
+          unread_inbox: options.unreadInbox,
+          hide_blocked_users: options.hideBlockedUsers,
+          favorited_chats: options.favoritedChats,
+        }),
       },
-      body: JSON.stringify({
-        ...options,
-        avatar_color: options.avatarColor,
-        unread_inbox: options.unreadInbox,
-        hide_blocked_users: options.hideBlockedUsers,
-        favorited_chats: options.favoritedChats,
-      }),
-    });
+    );
     if (response.ok) {
       return;
     }
@@ -503,118 +1379,623 @@ export class RoarBot {
    * @param options Some options. See {@link CommandOptions} for details.
    * @throws If a command with that name is already present.
    */
-  command<const TPattern extends Pattern>(
-    name: string,
-    options: CommandOptions<TPattern>,
-  ) {
-    const validateName = (name: string) => {
-      if (/\s/.test(name)) {
-        throw new Error("A command name cannot include whitespace.");
-      }
-      if (this._commands.some((command) => command.name === name)) {
-        throw new Error(
-          `A command with the name of ${JSON.stringify(name)} already exists.`,
-        );
-      }
-    };
-    validateName(name);
-    options.aliases?.forEach((alias) => {
-      validateName(alias);
-    });
-    this._commands.push({
-      name: name,
-      aliases: options.aliases ?? [],
-      description: options.description ?? null,
-      category: options.category ?? "None",
+  command<
+    const TPattern extends Pattern,
+    const TFlags extends Flags = Record<never, never>,
+  >(name: string, options: CommandOptions<TPattern, TFlags>) {
+    this._registerCommand(this._commands, name, options);
+  }
+
+  /**
+   * Register a new group of subcommands.
+   * @param name The name of the group.
+   * @param options Some options. See {@link GroupOptions} for details.
+   * @returns The group, which subcommands can be registered on.
+   * @throws If a command with that name is already present.
+   * @example
+   * ```ts
+   * const config = bot.group("config", { description: "Manage settings." });
+   * config.command("set", {
+   *   args: ["string", { type: "full", name: "value" }],
+   *   fn: async (reply, [key, value]) => {
+   *     await reply(`Set ${key} to ${value}.`);
+   *   },
+   * });
+   *
+   * // @BearBot config set prefix !
+   * ```
+   */
+  group(name: string, options?: GroupOptions): CommandGroup {
+    return new CommandGroup(
+      this._registerGroup(this._commands, name, options ?? {}),
+      this._registry,
+    );
+  }
+
+  private _validateName(commands: Command[], name: string) {
+    if (/\s/.test(name)) {
+      throw new Error("A command name cannot include whitespace.");
+    }
+    if (
+      commands.some(
+        (command) => command.name === name || command.aliases.includes(name),
+      )
+    ) {
+      throw new Error(
+        `A command with the name of ${JSON.stringify(name)} already exists.`,
+      );
+    }
+  }
+
+  private _registerCommand<
+    const TPattern extends Pattern,
+    const TFlags extends Flags,
+  >(
+    commands: Command[],
+    name: string,
+    options: CommandOptions<TPattern, TFlags>,
+  ): Command {
+    this._validateName(commands, name);
+    options.aliases?.forEach((alias) => {
+      this._validateName(commands, alias);
+    });
+    const command: Command = {
+      name: name,
+      aliases: options.aliases ?? [],
+      description: options.description ?? null,
+      category: options.category ?? "None",
       pattern: options.args,
+      flags: options.flags ?? {},
       admin: options.admin ?? false,
+      permissions: options.permissions ?? [],
+      cooldown: options.cooldown ?? null,
+      examples: options.examples ?? [],
+      subcommands: [],
+    };
+    commands.push(command);
+    this._handlers.set(command, {
+      fn: options.fn as CommandHandler["fn"],
+      run: options.run as CommandHandler["run"],
+      cooldown: options.cooldown && new Cooldown(options.cooldown),
     });
     this._log("success", `Registered command ${JSON.stringify(name)}.`);
-    this.on("post", async (reply, post) => {
-      if (post.username === this.username) {
+    return command;
+  }
+
+  private _registerGroup(
+    commands: Command[],
+    name: string,
+    options: GroupOptions,
+  ): Command {
+    this._validateName(commands, name);
+    options.aliases?.forEach((alias) => {
+      this._validateName(commands, alias);
+    });
+    const group: Command = {
+      name: name,
+      aliases: options.aliases ?? [],
+      description: options.description ?? null,
+      category: options.category ?? "None",
+      pattern: [],
+      flags: {},
+      admin: options.admin ?? false,
+      permissions: options.permissions ?? [],
+      cooldown: null,
+      examples: [],
+      subcommands: [],
+    };
+    commands.push(group);
+    this._log("success", `Registered group ${JSON.stringify(name)}.`);
+    return group;
+  }
+
+  private _findCommand(words: string[]) {
+    const path: Command[] = [];
+    let commands = this._commands;
+    while (path.length < words.length) {
+      const word = words[path.length];
+      const command = commands.find(
+        (command) => command.name === word || command.aliases.includes(word),
+      );
+      if (!command) {
+        break;
+      }
+      path.push(command);
+      commands = command.subcommands;
+    }
+    return { path, rest: words.slice(path.length) };
+  }
+
+  private _suggest(path: Command[], word: string) {
+    return suggest(
+      word,
+      path.at(-1)?.subcommands ?? this._commands,
+      (command) => [command.name, ...command.aliases],
+    );
+  }
+
+  private _noCommandMessage(
+    words: string[],
+    path: Command[],
+    suggestions: ReturnType<RoarBot["_suggest"]>,
+  ) {
+    const command = JSON.stringify(words.slice(0, path.length + 1).join(" "));
+    if (suggestions.length === 0) {
+      return this._messages.noCommand(command);
+    }
+    return this._messages.noCommandSuggestions(
+      command,
+      suggestions
+        .map(({ name }) =>
+          JSON.stringify(
+            [...path.map((command) => command.name), name].join(" "),
+          ),
+        )
+        .join(", "),
+    );
+  }
+
+  private _parseInvocation(post: RichPost) {
+    const mention = `@${this.username}`;
+    if (post.content.toLowerCase().startsWith(`${mention} `.toLowerCase())) {
+      return {
+        content: post.content.slice(mention.length + 1),
+        explicit: true,
+      };
+    }
+    const prefix = (this._chatPrefixes.get(post.origin) ?? this._prefixes).find(
+      (prefix) => post.content.startsWith(prefix),
+    );
+    if (prefix !== undefined) {
+      return { content: post.content.slice(prefix.length), explicit: true };
+    }
+    if (this._mentionlessChats.includes(post.origin)) {
+      return { content: post.content, explicit: false };
+    }
+    return null;
+  }
+
+  private async _dispatch(reply: RichPost["reply"], post: RichPost) {
+    if (post.username === this.username) {
+      return;
+    }
+    const waiter = [...this._waiters].find((waiter) => waiter.filter(post));
+    if (waiter) {
+      waiter.resolve(post);
+      return;
+    }
+    const invocation = this._parseInvocation(post);
+    if (!invocation) {
+      return;
+    }
+    const tokens = tokenize(invocation.content);
+    const split = tokens.map((token) => token.value);
+    if (split.length === 0) {
+      return;
+    }
+    let { path, rest } = this._findCommand(split);
+    let command = path.at(-1);
+    while (
+      !command ||
+      (command.subcommands.length !== 0 && rest.length !== 0)
+    ) {
+      if (!invocation.explicit) {
         return;
       }
-      const split = post.content.split(" ");
+      const suggestions = this._suggest(path, split[path.length]);
       if (
-        split[0].toLowerCase() !== `@${this.username}`.toLowerCase() ||
-        (split[1] !== name &&
-          !(
-            options.aliases &&
-            options.aliases.some((alias) => alias === split[1])
-          ))
+        this._autoCorrect &&
+        suggestions.length !== 0 &&
+        suggestions[0].distance !== suggestions[1]?.distance
       ) {
-        return;
+        this._log(
+          "info",
+          `Correcting ${JSON.stringify(split[path.length])} to ${JSON.stringify(suggestions[0].name)}.`,
+        );
+        split[path.length] = suggestions[0].name;
+        ({ path, rest } = this._findCommand(split));
+        command = path.at(-1);
+        continue;
       }
-      const commandName = `${JSON.stringify(post.content)} by ${
-        post.username
-      } in ${post.origin}`;
-      this._log("info", `Running ${commandName}...`);
-      const handleError = async (fn: () => void | Promise<void>) => {
-        try {
-          await fn();
-        } catch (e) {
-          this._log(
-            "error",
-            `Couldn't run ${commandName} because an error occured.`,
-            e,
-          );
-          try {
-            await reply(this._messages.error);
-          } catch (f) {
-            this._log(
-              "error",
-              "Another error occured trying to send the error.",
-              f,
-            );
-          }
-        }
-      };
-      let refuse = false;
-      await handleError(async () => {
-        if (this._banned.includes(post.username)) {
-          this._log(
-            "error",
-            `Refused running ${commandName} as the user is banned.`,
-          );
-          refuse = true;
-          await reply(this._messages.banned);
-        }
+      await reply(this._noCommandMessage(split, path, suggestions));
+      return;
+    }
+    if (command.subcommands.length !== 0) {
+      await reply(this._renderCommandHelp(command, path.slice(0, -1)));
+      return;
+    }
+    await this._runCommand(path, tokens.slice(path.length), reply, post);
+  }
+
+  private async _runCommand(
+    path: Command[],
+    args: Token[],
+    reply: RichPost["reply"],
+    post: RichPost,
+  ) {
+    const handler = this._handlers.get(path.at(-1)!)!;
+    const commandName = this._describe(post);
+    this._log("info", `Running ${commandName}...`);
+    const context: CommandContext = {
+      bot: this,
+      post,
+      reply,
+      command: path.at(-1)!,
+      path,
+      args: [],
+      flags: {},
+      data: {},
+    };
+    try {
+      const middleware = [
+        this._checkBan,
+        this._checkPermissions,
+        this._checkCooldown,
+        this._parseArguments(args),
+        ...this._middleware,
+      ];
+      await runMiddleware(middleware, context, async () => {
+        const args = context.args as ResolvePattern<Pattern>;
+        const flags = context.flags as ResolveFlags<Flags>;
+        await (handler.run ?
+          handler.run({
+            ...context,
+            args,
+            flags,
+            chat: post.origin,
+            user: () => this.user(post.username),
+            react: (emoji) => post.react(emoji),
+            typing: () => this.typing(post.origin),
+            awaitReply: (options) =>
+              this.awaitPost(
+                (other) =>
+                  other.username.toLowerCase() ===
+                    post.username.toLowerCase() && other.origin === post.origin,
+                options,
+              ),
+            prompt: post.prompt.bind(post),
+            dialog: post.dialog.bind(post),
+            storage: {
+              global: this._storage,
+              user: this._storage.user(post.username),
+              chat: this._storage.chat(post.origin),
+            },
+          })
+        : handler.fn?.(reply, args, post, flags));
+        this._log("success", `Successfully ran ${commandName}.`);
       });
-      if (refuse) {
-        return;
+    } catch (e) {
+      this._log(
+        "error",
+        `Couldn't run ${commandName} because an error occured.`,
+        e,
+      );
+      try {
+        await reply(this._messages.error);
+      } catch (f) {
+        this._log(
+          "error",
+          "Another error occured trying to send the error.",
+          f,
+        );
       }
-      await handleError(async () => {
-        if (options.admin && !this._admins.includes(post.username)) {
-          this._log(
-            "error",
-            `Refused running ${commandName} as the user is not an admin.`,
-          );
-          refuse = true;
-          await reply(this._messages.adminLocked);
-        }
-      });
-      if (refuse) {
-        return;
+    }
+  }
+
+  private _describe(post: RichPost) {
+    return `${JSON.stringify(post.content)} by ${post.username} in ${
+      post.origin
+    }`;
+  }
+
+  private _checkBan: Middleware = async ({ post, reply }, next) => {
+    const ban =
+      this._banned.includes(post.username) ?
+        { username: post.username, until: null, reason: null }
+      : await this.getBan(post.username);
+    if (!ban) {
+      await next();
+      return;
+    }
+    this._log(
+      "error",
+      `Refused running ${this._describe(post)} as the user is banned.`,
+    );
+    await reply(
+      ban.until || ban.reason ?
+        this._messages.bannedDetails(
+          ban.until && formatDuration(ban.until.getTime() - Date.now()),
+          ban.reason,
+        )
+      : this._messages.banned,
+    );
+  };
+
+  private _checkPermissions: Middleware = async (
+    { post, reply, path },
+    next,
+  ) => {
+    for (const permission of this._requiredPermissions(path)) {
+      if (await this._permissions.has(post.username, permission, post.origin)) {
+        continue;
       }
-      const parsed = parseArgs(
-        options.args,
-        split.slice(2),
+      this._log(
+        "error",
+        `Refused running ${this._describe(post)} as the user doesn't have the ${JSON.stringify(permission)} permission.`,
+      );
+      await reply(
+        permission === "admin" ?
+          this._messages.adminLocked
+        : this._messages.missingPermission(permission),
+      );
+      return;
+    }
+    await next();
+  };
+
+  private _checkCooldown: Middleware = async (
+    { post, reply, command },
+    next,
+  ) => {
+    const cooldown = this._handlers.get(command)?.cooldown;
+    if (
+      !cooldown ||
+      (cooldown.adminsExempt &&
+        (await this._permissions.has(post.username, "admin", post.origin)))
+    ) {
+      await next();
+      return;
+    }
+    const remaining = cooldown.use(post);
+    if (remaining === 0) {
+      await next();
+      return;
+    }
+    this._log(
+      "error",
+      `Refused running ${this._describe(post)} as the command is on cooldown.`,
+    );
+    await reply(this._messages.cooldown(formatDuration(remaining)));
+  };
+
+  private _parseArguments(args: Token[]): Middleware {
+    return async (context, next) => {
+      const { post, reply, command, path } = context;
+      const parsed = await parseArgs(
+        command.pattern,
+        args,
         this._messages,
         post.replyTo,
+        this,
+        command.flags,
       );
-      await handleError(async () => {
-        if (parsed.error) {
-          this._log(
-            "error",
-            `Couldn't run ${commandName} because ${parsed.message}`,
-          );
-          await reply(parsed.message);
-        } else {
-          await options.fn(reply, parsed.parsed, post);
-          this._log("success", `Successfully ran ${commandName}.`);
-        }
+      if (parsed.error) {
+        this._log(
+          "error",
+          `Couldn't run ${this._describe(post)} because ${parsed.message}`,
+        );
+        await reply(
+          `${parsed.message}\n${this._messages.argsUsage(
+            this._renderUsage(command, path.slice(0, -1)),
+          )}`,
+        );
+        return;
+      }
+      context.args = parsed.parsed;
+      context.flags = parsed.flags;
+      await next();
+    };
+  }
+
+  private _requiredPermissions(path: Command[]) {
+    return [
+      ...new Set(
+        path.flatMap((command) => [
+          ...(command.admin ? ["admin"] : []),
+          ...command.permissions,
+        ]),
+      ),
+    ];
+  }
+
+  private _track(fn: () => Promise<void>) {
+    const promise = fn()
+      .catch((e) => {
+        this._log("error", "An error occured while handling a post.", e);
+      })
+      .finally(() => {
+        this._running.delete(promise);
       });
+    this._running.add(promise);
+  }
+
+  /**
+   * Wait for a post. Posts that are waited for aren't treated as commands.
+   * @param filter Decides whether a post is the one being waited for.
+   * @param options Some options. See {@link AwaitOptions} for details.
+   * @returns The post, or `null` if there was none in time or the bot
+   * stopped.
+   * @example
+   * ```ts
+   * const post = await bot.awaitPost((post) => post.content === "yes");
+   * ```
+   */
+  awaitPost(
+    filter: (post: RichPost) => boolean,
+    options?: AwaitOptions,
+  ): Promise<RichPost | null> {
+    return new Promise((resolve) => {
+      const waiter = {
+        filter,
+        resolve: (post: RichPost | null) => {
+          clearTimeout(timeoutId);
+          this._waiters.delete(waiter);
+          resolve(post);
+        },
+      };
+      const timeoutId = setTimeout(
+        () => waiter.resolve(null),
+        options?.timeout ?? 60000,
+      );
+      this._waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Add middleware that runs before every command. Middleware runs in the
+   * order it was added, after the bot checked bans, permissions and cooldowns
+   * and parsed the arguments. See {@link Middleware} for details.
+   * @param middleware The middleware.
+   * @example
+   * ```ts
+   * bot.use(async ({ post, command }, next) => {
+   *   console.log(`${post.username} used ${command.name}`);
+   *   await next();
+   * });
+   * ```
+   */
+  use(middleware: Middleware) {
+    this._middleware.push(middleware);
+  }
+
+  /**
+   * Ban a user from using the bot. Bans are kept in the ban store, so they
+   * persist after restarting if the store supports it.
+   * @param username The username of the user.
+   * @param options Some options. See {@link BanOptions} for details.
+   * @example
+   * ```ts
+   * await bot.ban("spammer", {
+   *   until: new Date(Date.now() + 1000 * 60 * 60),
+   *   reason: "Spamming",
+   * });
+   * ```
+   */
+  async ban(username: string, options?: BanOptions) {
+    await this._bans.set({
+      username,
+      until: options?.until ?? null,
+      reason: options?.reason ?? null,
     });
+    this._log("info", `Banned ${username}.`);
+  }
+
+  /**
+   * Unban a user. Users banned with the `banned` option can't be unbanned.
+   * @param username The username of the user.
+   * @returns Whether the user was banned.
+   */
+  async unban(username: string): Promise<boolean> {
+    if (!(await this.getBan(username))) {
+      return false;
+    }
+    await this._bans.delete(username);
+    this._log("info", `Unbanned ${username}.`);
+    return true;
+  }
+
+  /**
+   * Get the ban of a user. This doesn't include the `banned` option.
+   * @param username The username of the user.
+   * @returns The ban, or `undefined` if the user isn't banned.
+   */
+  async getBan(username: string): Promise<Ban | undefined> {
+    const ban = await this._bans.get(username);
+    if (ban?.until && ban.until.getTime() <= Date.now()) {
+      await this._bans.delete(username);
+      return undefined;
+    }
+    return ban;
+  }
+
+  /**
+   * Get all bans that haven't expired. This doesn't include the `banned`
+   * option.
+   */
+  async getBans(): Promise<Ban[]> {
+    const bans = await this._bans.list();
+    const now = Date.now();
+    await Promise.all(
+      bans
+        .filter((ban) => ban.until && ban.until.getTime() <= now)
+        .map((ban) => this._bans.delete(ban.username)),
+    );
+    return bans.filter((ban) => !ban.until || ban.until.getTime() > now);
+  }
+
+  /**
+   * Give a user a role. Roles given this way are lost when the bot restarts.
+   * @param username The username of the user.
+   * @param role The name of the role. See {@link Roles} for details.
+   * @param chat The chat the role applies to. If not given, the role applies
+   * everywhere.
+   * @throws If the role doesn't exist.
+   * @example
+   * ```ts
+   * bot.grantRole("mybearworld", "moderator", "home");
+   * ```
+   */
+  grantRole(username: string, role: string, chat?: string) {
+    this._permissions.grant(username, role, chat);
+  }
+
+  /**
+   * Take a role from a user.
+   * @param username The username of the user.
+   * @param role The name of the role.
+   * @param chat The chat the role applied to. If not given, the role is only
+   * taken where it applied everywhere.
+   * @returns Whether the user had the role.
+   */
+  revokeRole(username: string, role: string, chat?: string): boolean {
+    return this._permissions.revoke(username, role, chat);
+  }
+
+  /**
+   * Get the roles of a user.
+   * @param username The username of the user.
+   * @param chat The chat to include the roles of. If not given, only roles that
+   * apply everywhere are included.
+   * @returns The names of the roles.
+   */
+  getRoles(username: string, chat?: string): string[] {
+    return this._permissions.roles(username, chat);
+  }
+
+  /**
+   * Check whether a user has a permission, either through their roles or the
+   * `checkPermission` option.
+   * @param username The username of the user.
+   * @param permission The permission. Commands with `admin` set need the
+   * `admin` permission.
+   * @param chat The chat the permission is needed in.
+   */
+  hasPermission(
+    username: string,
+    permission: string,
+    chat?: string,
+  ): Promise<boolean> {
+    return this._permissions.has(username, permission, chat);
+  }
+
+  /**
+   * Set the prefixes commands can be used with in a chat. Mentioning the bot
+   * always works as well.
+   * @param chat The chat to set the prefixes for.
+   * @param prefixes The prefixes. If this is `undefined`, the prefixes of the
+   * bot are used again.
+   * @example
+   * ```ts
+   * bot.setChatPrefixes("home", ["!"]);
+   * // !ping
+   * ```
+   */
+  setChatPrefixes(chat: string, prefixes: string[] | undefined) {
+    if (prefixes) {
+      this._chatPrefixes.set(chat, prefixes);
+    } else {
+      this._chatPrefixes.delete(chat);
+    }
   }
 
   /**
@@ -690,6 +2071,50 @@ export class RoarBot {
   get ws(): WebSocket | undefined {
     return this._ws;
   }
+
+  /** Statistics about the posts the bot sends. */
+  get queue(): QueueMetrics {
+    return this._queue.metrics;
+  }
+
+  /** The current state of the connection to Meower. */
+  get status(): ConnectionStatus {
+    return this._status;
+  }
+
+  /** The endpoints the bot sends its requests to. */
+  get endpoints(): Endpoints {
+    return { ...this._endpoints };
+  }
+
+  /**
+   * The posts the bot knows about. See {@link PostCache} for details.
+   * @example
+   * ```ts
+   * console.log(bot.posts.metrics.hits);
+   * ```
+   */
+  get posts(): PostCache {
+    return this._posts;
+  }
+
+  /** The messages the bot sends. */
+  get messages(): Messages {
+    return { ...this._messages };
+  }
+
+  /** The transport the bot uses to make requests and connect to Meower. */
+  get transport(): Transport {
+    return { ...this._transport };
+  }
+
+  /**
+   * Persistent values of the bot, like settings or counters. See
+   * {@link BotStorage} for details.
+   */
+  get storage(): BotStorage {
+    return this._storage;
+  }
 }
 
 /**
@@ -700,20 +2125,81 @@ export type Events = {
   post: (reply: RichPost["reply"], post: RichPost) => void;
   updatePost: (reply: RichPost["reply"], post: RichPost) => void;
   deletePost: (id: string) => void;
+  /** Fires when an established connection is lost. */
+  disconnect: (code: number, reason: string) => void;
+  /** Fires before every attempt to reconnect. */
+  reconnecting: (attempt: number, delay: number) => void;
+  /** Fires when the bot has reconnected after losing its connection. */
+  reconnected: () => void;
+  /** Fires when the bot gives up on reconnecting. */
+  reconnectFailed: () => void;
+  /** Fires when the bot has been stopped. */
+  shutdown: () => void;
 };
 
+/**
+ * The state of the connection to Meower.
+ * - `disconnected`: Not connected, and not trying to connect.
+ * - `connecting`: Connecting for the first time.
+ * - `connected`: Connected and logged in.
+ * - `reconnecting`: The connection was lost and the bot is trying to get it
+ * back.
+ */
+export type ConnectionStatus =
+  "disconnected" | "connecting" | "connected" | "reconnecting";
+
 /** Options that can be passed into {@link RoarBot}. */
 export type RoarBotOptions = {
-  /** The administrators of this bot. They can use admin commands. */
+  /**
+   * The administrators of this bot. They can use admin commands. This is the
+   * same as giving them the `admin` role in `roleAssignments`.
+   */
   admins?: string[];
+  /** The roles users can have. See {@link Roles} for details. */
+  roles?: Roles;
+  /** Which users have which roles everywhere. */
+  roleAssignments?: RoleAssignments;
+  /**
+   * Which users have which roles in specific chats. The keys are the chat
+   * IDs.
+   */
+  chatRoleAssignments?: Record<string, RoleAssignments>;
+  /**
+   * Decides whether a user has a permission before their roles are checked.
+   * See {@link PermissionCheck} for details.
+   */
+  checkPermission?: PermissionCheck;
+  /**
+   * Whether to have generated commands for administrators to grant and revoke
+   * roles. Administrators who only have the `admin` role in a chat can only
+   * change roles in that chat. By default, this is false.
+   */
+  roleCommands?: boolean;
   /**
    * Users banned from using the bot. Any commands they try to run won't be executed.
+   * See also {@link RoarBot.prototype.ban}.
    */
   banned?: string[];
   /**
-   * Whether to have a generated help command. By default, this is true.
+   * Where to store bans made with {@link RoarBot.prototype.ban}. By default,
+   * this is a {@link FileBanStore}.
    */
-  help?: boolean;
+  bans?: BanStore;
+  /**
+   * Where to keep the values of {@link RoarBot.prototype.storage}. By default,
+   * this is a {@link FileStorage}.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Whether to have generated `ban`, `unban` and `bans` commands. They need
+   * the `ban` permission. By default, this is false.
+   */
+  banCommands?: boolean;
+  /**
+   * Whether to have a generated help command, or options for it. See
+   * {@link HelpOptions} for details. By default, this is true.
+   */
+  help?: boolean | HelpOptions;
   /**
    * Different messages the bot might send. Each of them has a default that
    * will be used if none are provided here.
@@ -721,6 +2207,141 @@ export type RoarBotOptions = {
   messages?: Partial<Messages>;
   /** Whether to log messages to the console. */
   loggingLevel?: LoggingLevel;
+  /**
+   * The endpoints to connect to. This is useful for self-hosted instances of
+   * Meower or for local test servers. Endpoints that aren't provided default
+   * to the official Meower servers.
+   */
+  endpoints?: Partial<Endpoints>;
+  /**
+   * How the bot makes requests and connects to Meower. By default, the global
+   * `fetch` and `WebSocket` are used. This is mostly useful for testing, see
+   * the `FakeMeowerServer` in `@mbw/roarbot/testing`.
+   */
+  transport?: Partial<Transport>;
+  /** How to reconnect when the connection is lost. */
+  reconnect?: ReconnectOptions;
+  /**
+   * Where to store the token of the account so that it can be reused after a
+   * restart. By default, this is a {@link FileSessionStore}. Set this to
+   * `false` to always log in with the password.
+   */
+  session?: SessionStore | false;
+  /** How to limit the rate of posts. */
+  rateLimit?: RateLimitOptions;
+  /** How to cache posts. See {@link PostCacheOptions} for details. */
+  postCache?: PostCacheOptions;
+  /**
+   * Prefixes that commands can be used with instead of mentioning the bot,
+   * like `!` or `rb.`. Mentioning the bot always works as well.
+   */
+  prefixes?: string[];
+  /**
+   * Prefixes for specific chats, used instead of `prefixes` in them. The keys
+   * are the chat IDs. See also {@link RoarBot.prototype.setChatPrefixes}.
+   */
+  chatPrefixes?: Record<string, string[]>;
+  /**
+   * Chats in which commands can be used without mentioning the bot or using a
+   * prefix, like chats dedicated to the bot. Posts in these chats that aren't
+   * commands are ignored instead of getting the `noCommand` message.
+   */
+  mentionlessChats?: string[];
+  /**
+   * Whether to run the closest command when a command doesn't exist, as long
+   * as only one command is the closest. By default, the bot only suggests
+   * similar commands.
+   */
+  autoCorrect?: boolean;
+};
+
+/**
+ * Options for the generated help command. The list of commands is split into
+ * pages, which can be viewed with `help <page>`. `help <category>` shows the
+ * commands in a category, and `help <category> <page>` a page of them.
+ */
+export type HelpOptions = {
+  /** How many commands are on one page. By default, this is 10. */
+  pageSize?: number;
+  /**
+   * Whether every category gets its own page instead of splitting the
+   * commands by `pageSize`.
+   */
+  byCategory?: boolean;
+  /**
+   * Whether users can switch pages by replying to a page of the help command
+   * with `next`, `previous` or a page number. The words are taken from the
+   * `helpNext` and `helpPrevious` messages.
+   */
+  navigation?: boolean;
+};
+
+/** Options that can be passed into {@link RoarBot.prototype.stop}. */
+export type StopOptions = {
+  /**
+   * How long to wait for running commands to finish in milliseconds. By
+   * default, this is 10000.
+   */
+  timeout?: number;
+  /**
+   * Whether to revoke the token of the account. Note that this logs the
+   * account out everywhere.
+   */
+  revokeToken?: boolean;
+};
+
+/**
+ * How the bot reconnects when the connection is lost. The delay before each
+ * attempt doubles, starting at `baseDelay` and capped at `maxDelay`, and is
+ * then reduced by a random amount of up to `jitter` of itself so that bots
+ * don't all reconnect at once. When the server rejects the token, the bot logs
+ * in again with the password it logged in with.
+ */
+export type ReconnectOptions = {
+  /**
+   * How many attempts to make before giving up. Set this to 0 to never
+   * reconnect. By default, this is `Infinity`.
+   */
+  maxAttempts?: number;
+  /** The delay before the first attempt in milliseconds. By default, this is 1000. */
+  baseDelay?: number;
+  /** The maximum delay between attempts in milliseconds. By default, this is 60000. */
+  maxDelay?: number;
+  /**
+   * The fraction of the delay that is randomized, from 0 to 1. By default,
+   * this is 0.5.
+   */
+  jitter?: number;
+};
+
+/** The functions the bot uses to communicate with Meower. */
+export type Transport = {
+  /** Makes an HTTP request. This has the same signature as `fetch`. */
+  fetch: typeof fetch;
+  /**
+   * Opens a WebSocket connection.
+   * @param url The URL to connect to.
+   */
+  webSocket: (url: string) => WebSocket;
+};
+
+/**
+ * The base URLs of the services the bot connects to. Trailing slashes are
+ * removed.
+ */
+export type Endpoints = {
+  /** The base URL of the API. By default, this is `https://api.meower.org`. */
+  api: string;
+  /**
+   * The URL of the WebSocket server. By default, this is
+   * `https://server.meower.org`.
+   */
+  ws: string;
+  /**
+   * The base URL of the uploads server. By default, this is
+   * `https://uploads.meower.org`.
+   */
+  uploads: string;
 };
 
 /**
@@ -738,48 +2359,222 @@ export type LoggingLevel = "none" | "base" | "ws";
 export type Messages = {
   /** When a command doesn't exist. */
   noCommand: (command: string) => string;
+  /**
+   * When a command doesn't exist, but there are commands with similar names.
+   * The suggestions are quoted and separated with commas.
+   */
+  noCommandSuggestions: (command: string, suggestions: string) => string;
   /** Description of the help command. */
   helpDescription: string;
   /** @deprecated Unused */
   helpOptional: string;
   /** Heading for the commands in the help command. */
   helpCommands: string;
+  /** The page number at the bottom of a page of the help command. */
+  helpPage: (page: number, pages: number) => string;
+  /** When a page of the help command doesn't exist. */
+  helpNoPage: (page: number) => string;
+  /** How to switch pages, if navigation in the help command is enabled. */
+  helpNavigation: string;
+  /** The reply for switching to the next page of the help command. */
+  helpNext: string;
+  /** The reply for switching to the previous page of the help command. */
+  helpPrevious: string;
+  /** The aliases of a command in the help command. */
+  helpAliases: (aliases: string) => string;
+  /** Heading for the examples of a command in the help command. */
+  helpExamples: string;
+  /** Note in the help command for commands limited to administrators. */
+  helpAdmin: string;
+  /** Note in the help command for commands that need permissions. */
+  helpPermissions: (permissions: string) => string;
+  /** The cooldown of a command in the help command. */
+  helpCooldown: (time: string) => string;
   /** Message for when a user is banned. */
   banned: string;
+  /**
+   * Message for when a user is banned temporarily or with a reason. Either of
+   * them may be `null`.
+   */
+  bannedDetails: (remaining: string | null, reason: string | null) => string;
+  /** When a user was banned with the generated ban commands. */
+  banAdded: (username: string) => string;
+  /** When a user was unbanned with the generated ban commands. */
+  banRemoved: (username: string) => string;
+  /** When a user that should be unbanned isn't banned. */
+  notBanned: (username: string) => string;
+  /** The banned users, one per line, or an empty string if there are none. */
+  banList: (bans: string) => string;
+  /** Message for when someone lacks a permission a command needs. */
+  missingPermission: (permission: string) => string;
+  /** When a role was given with the generated role commands. */
+  roleGranted: (username: string, role: string) => string;
+  /** When a role was taken with the generated role commands. */
+  roleRevoked: (username: string, role: string) => string;
+  /** When a role that doesn't exist is used in the generated role commands. */
+  roleNotFound: (role: string) => string;
+  /** When a user doesn't have a role that should be taken. */
+  roleNotAssigned: (username: string, role: string) => string;
+  /**
+   * When someone who is only an administrator in a chat tries to change roles
+   * everywhere with the generated role commands.
+   */
+  roleGlobalLocked: string;
+  /** The roles of a user in the generated role commands. */
+  roleList: (username: string, roles: string) => string;
   /** Message for when someone tries to run an admin-locked command. */
   adminLocked: string;
   /** Message for when something goes wrong. */
   error: string;
   /** Message for when an argument is missing. */
   argsMissing: (name: string) => string;
+  /** Message for when a variadic argument has too few values. */
+  argsTooFew: (name: string, min: number) => string;
   /** Message for when a string is not in the expected set of strings. */
   argsNotInSet: (string: string, set: string) => string;
   /** Message for when something is not a number. */
   argNan: (string: string) => string;
+  /** Message for when something is not an integer. */
+  argNotInteger: (string: string) => string;
+  /** Message for when something is not a boolean. */
+  argNotBoolean: (string: string) => string;
+  /** Message for when a user doesn't exist. */
+  argNoUser: (username: string) => string;
+  /** Message for when something is not a duration. */
+  argNotDuration: (string: string) => string;
+  /** Message for when something is not a date. */
+  argNotDate: (string: string) => string;
+  /** Message for when something is not a URL. */
+  argNotUrl: (string: string) => string;
+  /** Message for when something is not a chat. */
+  argNotChat: (string: string) => string;
+  /** Message for when a flag doesn't exist. */
+  unknownFlag: (flag: string) => string;
+  /** Message for when a flag that takes a value is used without one. */
+  flagMissingValue: (flag: string) => string;
   /** Message for when there are too many arguments. */
   tooManyArgs: string;
+  /**
+   * Appended to messages about invalid arguments to show how to use the
+   * command.
+   */
+  argsUsage: (usage: string) => string;
+  /** Message for when a command is used while it's on cooldown. */
+  cooldown: (time: string) => string;
+  /** The answer for cancelling a prompt. */
+  promptCancel: string;
+  /** When a prompt was cancelled or answered wrong too often. */
+  promptCancelled: string;
+  /** When a prompt wasn't answered in time. */
+  promptTimeout: string;
 };
 
 /**
  * Options that can be passed into {@link RoarBot.prototype.command}.
  */
-export type CommandOptions<TPattern extends Pattern> = {
+export type CommandOptions<
+  TPattern extends Pattern,
+  TFlags extends Flags = Record<never, never>,
+> = {
   /** Alternate names of the command. */
   aliases?: string[];
   /** The description of the command. This is shown in the help message. */
   description?: string;
   /** The category the command is in. This is shown in the help message. */
   category?: string;
+  /**
+   * Examples of using the command, like `roll 2d6`. These are shown in the
+   * help message of the command after a mention of the bot.
+   */
+  examples?: string[];
   /** The argument pattern of the command. */
   args: TPattern;
-  /** Whether this command is only usable by administrators. */
+  /** The flags of the command. See {@link Flags} for details. */
+  flags?: TFlags;
+  /**
+   * Whether this command is only usable by administrators. This is the same
+   * as requiring the `admin` permission.
+   */
   admin?: boolean;
-  /** The callback to be called when the command gets executed. */
-  fn: (
-    reply: RichPost["reply"],
-    args: ResolvePattern<TPattern>,
-    post: RichPost,
-  ) => void | Promise<void>;
+  /**
+   * The permissions needed to use this command. See {@link Roles} for
+   * details.
+   */
+  permissions?: string[];
+  /**
+   * How often the command can be used. See {@link CooldownOptions} for
+   * details.
+   */
+  cooldown?: CooldownOptions;
+} & (
+  | {
+      /** The callback to be called when the command gets executed. */
+      fn: (
+        reply: RichPost["reply"],
+        args: ResolvePattern<TPattern>,
+        post: RichPost,
+        flags: ResolveFlags<TFlags>,
+      ) => void | Promise<void>;
+      run?: never;
+    }
+  | {
+      fn?: never;
+      /**
+       * The callback to be called when the command gets executed, receiving
+       * a context instead of positional arguments. See {@link RunContext} for
+       * details. This can be used instead of `fn`.
+       */
+      run: (context: RunContext<TPattern, TFlags>) => void | Promise<void>;
+    }
+);
+
+/**
+ * What the `run` callback of a command receives. This includes everything in
+ * the {@link CommandContext} of middleware.
+ * @example
+ * ```ts
+ * bot.command("greet", {
+ *   args: [],
+ *   run: async ({ user, reply, storage }) => {
+ *     const { avatar } = await user();
+ *     await storage.user.set("greeted", true);
+ *     await reply(`Hello! Your avatar is ${avatar}.`);
+ *   },
+ * });
+ * ```
+ */
+export type RunContext<
+  TPattern extends Pattern,
+  TFlags extends Flags = Record<never, never>,
+> = Omit<CommandContext, "args" | "flags"> & {
+  /** The parsed arguments of the command. */
+  args: ResolvePattern<TPattern>;
+  /** The parsed flags of the command. */
+  flags: ResolveFlags<TFlags>;
+  /** The chat the command was used in. */
+  chat: string;
+  /** Get the profile of the user who used the command. */
+  user: () => Promise<User>;
+  /**
+   * React to the post that used the command.
+   * @param emoji The emoji to react with.
+   */
+  react: (emoji: string) => Promise<void>;
+  /** Show that the bot is typing in the chat the command was used in. */
+  typing: () => Promise<void>;
+  /** Storage for the whole bot, the user and the chat. */
+  storage: { global: BotStorage; user: BotStorage; chat: BotStorage };
+  /**
+   * Wait for the next post of the user in the chat.
+   * @returns The post, or `null` if there was none in time.
+   */
+  awaitReply: (options?: AwaitOptions) => Promise<RichPost | null>;
+  /** Ask the user a question. See {@link RichPost.prototype.prompt}. */
+  prompt: RichPost["prompt"];
+  /**
+   * Ask the user multiple questions. See {@link RichPost.prototype.dialog}.
+   */
+  dialog: RichPost["dialog"];
 };
 
 /** A command when it has been added to a bot. */
@@ -794,8 +2589,27 @@ export type Command = {
   description: string | null;
   /** The pattern the arguments use. */
   pattern: Pattern;
+  /** The flags of the command. */
+  flags: Flags;
   /** Whether the command is limited to administrators. */
   admin: boolean;
+  /** The permissions needed to use the command. */
+  permissions: string[];
+  /** How often the command can be used. */
+  cooldown: CooldownOptions | null;
+  /** Examples of using the command. */
+  examples: string[];
+  /**
+   * The subcommands of the command. If there are any, the command is a group
+   * created with {@link RoarBot.prototype.group}.
+   */
+  subcommands: Command[];
+};
+
+type CommandHandler = {
+  fn?: CommandOptions<Pattern, Flags>["fn"];
+  run?: CommandOptions<Pattern, Flags>["run"];
+  cooldown?: Cooldown;
 };
 
 /**
@@ -1,14 +1,99 @@
-import type { Messages, RichPost } from "./mod.ts";
+import type { Messages, RichPost, RoarBot, User } from "./mod.ts";
 
 /**
  * Possible types of patterns to a command.
  * - `"string"`: Any string
  * - `"number"`: Any floating point number
+ * - `"integer"`: Any integer
+ * - `"boolean"`: `true`/`false`, `yes`/`no`, `on`/`off` or `1`/`0`
+ * - `"user"`: A user, with or without an `@`. This resolves to their profile.
+ * - `"duration"`: A duration like `10m` or `1h30m`. This resolves to the
+ * amount of milliseconds. The units are `ms`, `s`, `m`, `h`, `d` and `w`.
+ * - `"date"`: An ISO date like `2024-11-08` or `2024-11-08T12:00`, optionally
+ * with seconds and a time zone like `Z` or `+01:00`
+ * - `"url"`: A URL
+ * - `"chat"`: A chat ID, or `home` or `livechat`
  * - `"full"`: A string that matches until the end of the command.
  * - `"reply"`: A post the command replied to.
  * - `string[]`: One of the specified strings
+ * - {@link CustomPatternType}: A type with its own parser
  */
-export type PatternType = "string" | "number" | "full" | "reply" | string[];
+export type PatternType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "user"
+  | "duration"
+  | "date"
+  | "url"
+  | "chat"
+  | "full"
+  | "reply"
+  | string[]
+  | CustomPatternType;
+
+/**
+ * An argument type with its own parser. Use {@link customType} to define one
+ * outside of a pattern while keeping the type of the parsed value.
+ * @example
+ * ```ts
+ * bot.command("color", {
+ *   args: [
+ *     {
+ *       name: "hex color",
+ *       parse: (string) =>
+ *         /^#[0-9a-f]{6}$/i.test(string) ?
+ *           { error: false, value: parseInt(string.slice(1), 16) }
+ *         : { error: true, message: `${string} is not a hex color.` },
+ *     },
+ *   ],
+ *   fn: async (reply, [color]) => {
+ *     // color is a number
+ *   },
+ * });
+ * ```
+ */
+export type CustomPatternType<TValue = unknown> = {
+  /** The name of the type. This is shown in the help message. */
+  name: string;
+  /**
+   * Parses an argument.
+   * @param string The argument.
+   * @param bot The bot, if there is one.
+   * @returns The parsed value, or the message describing why it couldn't be
+   * parsed. This can also be a promise.
+   */
+  parse: (
+    string: string,
+    bot?: RoarBot,
+  ) => CustomParseResult<TValue> | Promise<CustomParseResult<TValue>>;
+};
+
+/**
+ * Define a {@link CustomPatternType}. This only exists for type inference.
+ * @param type The type.
+ * @returns The same type.
+ * @example
+ * ```ts
+ * const ticket = customType({
+ *   name: "ticket",
+ *   parse: async (string) => {
+ *     const ticket = await getTicket(string);
+ *     return ticket ?
+ *         { error: false, value: ticket }
+ *       : { error: true, message: `There is no ticket ${string}.` };
+ *   },
+ * });
+ * ```
+ */
+export const customType = <TValue>(
+  type: CustomPatternType<TValue>,
+): CustomPatternType<TValue> => type;
+
+/** The result of {@link CustomPatternType.parse}. */
+export type CustomParseResult<TValue> =
+  { error: false; value: TValue } | { error: true; message: string };
 
 /**
  * A list of arguments types. This is a list of objects formatted like this:
@@ -16,6 +101,11 @@ export type PatternType = "string" | "number" | "full" | "reply" | string[];
  * - optional: Whether it's optional or not. After an optional argument can only
  * be other optional arguments.
  * - name: The name of the argument.
+ * - variadic: Whether it takes all remaining arguments as an array. This has to
+ * be the last argument, and can't be used with `full` or `reply`.
+ * - min: The least amount of values a variadic argument takes. By default, this
+ * is 0 if it's optional and 1 otherwise.
+ * - max: The most amount of values a variadic argument takes.
  * If both the name and optional aren't given, the type can be standalone
  * without a wrapper object.
  *
@@ -41,10 +131,22 @@ export type PatternType = "string" | "number" | "full" | "reply" | string[];
  * // @Bot cmd Josh → ["Josh"]
  * // @Bot cmd Josh G'day → ["Josh", "G'day"]
  * ```
+ * @example Variadic
+ * ```js
+ * [{ type: "number", name: "numbers", variadic: true, min: 2 }]
+ * // @Bot cmd 1 2 3 4 → [[1, 2, 3, 4]]
+ * ```
  */
 export type Pattern = (
   | PatternType
-  | { type: PatternType; name?: string; optional?: boolean }
+  | {
+      type: PatternType;
+      name?: string;
+      optional?: boolean;
+      variadic?: boolean;
+      min?: number;
+      max?: number;
+    }
 )[];
 
 /**
@@ -54,7 +156,9 @@ export type ResolvePattern<TPattern extends Pattern> = {
   [K in keyof TPattern]: K extends `${number}` ?
     TPattern[K] extends PatternType ? ResolvePatternType<TPattern[K]>
     : TPattern[K] extends { type: PatternType } ?
-      TPattern[K] extends { optional: true } ?
+      TPattern[K] extends { variadic: true } ?
+        ResolvePatternType<TPattern[K]["type"]>[]
+      : TPattern[K] extends { optional: true } ?
         ResolvePatternType<TPattern[K]["type"]> | undefined
       : ResolvePatternType<TPattern[K]["type"]>
     : never
@@ -63,25 +167,390 @@ export type ResolvePattern<TPattern extends Pattern> = {
 type ResolvePatternType<TArgument extends PatternType> =
   TArgument extends "string" ? string
   : TArgument extends "number" ? number
+  : TArgument extends "integer" ? number
+  : TArgument extends "boolean" ? boolean
+  : TArgument extends "user" ? User
+  : TArgument extends "duration" ? number
+  : TArgument extends "date" ? Date
+  : TArgument extends "url" ? URL
+  : TArgument extends "chat" ? string
   : TArgument extends "full" ? string
   : TArgument extends "reply" ? RichPost
   : TArgument extends string[] ? TArgument[number]
+  : TArgument extends CustomPatternType<infer TValue> ? TValue
   : never;
 
-export const parseArgs = <const TPattern extends Pattern>(
+/**
+ * Flags of a command, which can be used in any position of the command. The
+ * keys are the names of the flags, used as `--name`. Flags without a type are
+ * toggles that are `true` when used, flags with a type take a value, given as
+ * `--name value` or `--name=value`. Everything after `--` or after the start
+ * of a `full` argument isn't treated as a flag.
+ *
+ * @example
+ * ```js
+ * {
+ *   verbose: { short: "v" },
+ *   limit: { type: "integer", short: "l" },
+ * }
+ * // @Bot cmd --verbose --limit=5 → { verbose: true, limit: 5 }
+ * // @Bot cmd -l 5 → { verbose: false, limit: 5 }
+ * ```
+ */
+export type Flags = Record<string, FlagOptions>;
+
+/** A flag in {@link Flags}. */
+export type FlagOptions = {
+  /**
+   * The type of the value of the flag. If this isn't given, the flag is a
+   * toggle.
+   */
+  type?: Exclude<PatternType, "full" | "reply">;
+  /** A single letter that can be used as `-letter` instead. */
+  short?: string;
+  /** The description of the flag. This is shown in the help message. */
+  description?: string;
+};
+
+/**
+ * Converts the passed in `TFlags` to its corresponding TypeScript type.
+ * Toggles are booleans, and flags with a value are `undefined` if they aren't
+ * used.
+ */
+export type ResolveFlags<TFlags extends Flags> = {
+  -readonly [K in keyof TFlags]: TFlags[K] extends (
+    { type: infer TType extends PatternType }
+  ) ?
+    ResolvePatternType<TType> | undefined
+  : boolean;
+};
+
+/**
+ * A part of a command, as returned from {@link tokenize}.
+ */
+export type Token = {
+  /** The text of the token, with quotes and escapes resolved. */
+  value: string;
+  /**
+   * The unchanged text from the start of the token until the end of the
+   * command. This is used for `full` arguments.
+   */
+  rest: string;
+};
+
+/**
+ * Splits a command into tokens. Tokens are separated by any amount of
+ * whitespace. Tokens starting with a double or single quote are kept together
+ * until the closing quote, and a backslash makes the following character be
+ * taken literally. Quotes in the middle of a token, like apostrophes, and
+ * quotes that are never closed are kept as they are.
+ * @param string The command to split.
+ * @returns The tokens.
+ * @example
+ * ```js
+ * tokenize(`remind "team standup" 10`).map((token) => token.value);
+ * // → ["remind", "team standup", "10"]
+ * ```
+ */
+export const tokenize = (string: string): Token[] => {
+  const tokens: Token[] = [];
+  let current: Token | null = null;
+  let quote: string | null = null;
+  let quoteStart = -1;
+  let literalQuote = -1;
+  for (let i = 0; i < string.length; i++) {
+    const char = string[i];
+    if (!quote && /\s/.test(char)) {
+      if (current) {
+        tokens.push(current);
+        current = null;
+      }
+      continue;
+    }
+    const atStart = !current;
+    current ??= { value: "", rest: string.slice(i) };
+    if (char === "\\" && i + 1 < string.length) {
+      i++;
+      current.value += string[i];
+    } else if (char === quote) {
+      quote = null;
+    } else if (
+      atStart &&
+      i !== literalQuote &&
+      (char === '"' || char === "'")
+    ) {
+      quote = char;
+      quoteStart = i;
+    } else {
+      current.value += char;
+    }
+    if (quote && i === string.length - 1) {
+      // The quote is never closed, so it's taken literally instead.
+      current = { value: "", rest: string.slice(quoteStart) };
+      quote = null;
+      literalQuote = quoteStart;
+      i = quoteStart - 1;
+    }
+  }
+  if (current) {
+    tokens.push(current);
+  }
+  return tokens;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+const DATE_REGEX =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/i;
+const CHAT_ID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const parseDuration = (string: string) => {
+  const parts = [
+    ...string.toLowerCase().matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/gy),
+  ];
+  if (
+    parts.length === 0 ||
+    parts.map(([part]) => part).join("") !== string.toLowerCase()
+  ) {
+    return null;
+  }
+  return parts.reduce(
+    (duration, [, amount, unit]) =>
+      duration + Number(amount) * DURATION_UNITS[unit],
+    0,
+  );
+};
+
+type ValueType = Exclude<PatternType, "full" | "reply">;
+
+const parseValue = async (
+  type: ValueType,
+  string: string,
+  messages: Messages,
+  bot?: RoarBot,
+): Promise<
+  { error: true; message: string } | { error: false; value: unknown }
+> => {
+  if (typeof type === "object" && !Array.isArray(type)) {
+    return await type.parse(string, bot);
+  }
+  if (Array.isArray(type)) {
+    if (!type.includes(string)) {
+      return {
+        error: true,
+        message: messages.argsNotInSet(
+          JSON.stringify(string),
+          type.map((t) => JSON.stringify(t)).join(", "),
+        ),
+      };
+    }
+    return { error: false, value: string };
+  }
+  switch (type) {
+    case "string": {
+      return { error: false, value: string };
+    }
+    case "number": {
+      const number = Number(string);
+      if (!string.trim() || Number.isNaN(number)) {
+        return {
+          error: true,
+          message: messages.argNan(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: number };
+    }
+    case "integer": {
+      const number = Number(string);
+      if (!string.trim() || !Number.isInteger(number)) {
+        return {
+          error: true,
+          message: messages.argNotInteger(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: number };
+    }
+    case "boolean": {
+      const lower = string.toLowerCase();
+      if (["true", "yes", "on", "1"].includes(lower)) {
+        return { error: false, value: true };
+      }
+      if (["false", "no", "off", "0"].includes(lower)) {
+        return { error: false, value: false };
+      }
+      return {
+        error: true,
+        message: messages.argNotBoolean(JSON.stringify(string)),
+      };
+    }
+    case "user": {
+      if (!bot) {
+        throw new Error("A bot is required to parse users.");
+      }
+      const username = string.replace(/^@/, "");
+      try {
+        return { error: false, value: await bot.user(username) };
+      } catch {
+        return {
+          error: true,
+          message: messages.argNoUser(JSON.stringify(username)),
+        };
+      }
+    }
+    case "duration": {
+      const duration = parseDuration(string);
+      if (duration === null) {
+        return {
+          error: true,
+          message: messages.argNotDuration(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: duration };
+    }
+    case "date": {
+      const date = new Date(string);
+      if (!DATE_REGEX.test(string) || Number.isNaN(date.getTime())) {
+        return {
+          error: true,
+          message: messages.argNotDate(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: date };
+    }
+    case "url": {
+      if (!URL.canParse(string)) {
+        return {
+          error: true,
+          message: messages.argNotUrl(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: new URL(string) };
+    }
+    case "chat": {
+      if (
+        string !== "home" &&
+        string !== "livechat" &&
+        !CHAT_ID_REGEX.test(string)
+      ) {
+        return {
+          error: true,
+          message: messages.argNotChat(JSON.stringify(string)),
+        };
+      }
+      return { error: false, value: string };
+    }
+    default:
+      (type) satisfies never;
+      throw new Error(`Unknown pattern type ${JSON.stringify(type)}.`);
+  }
+};
+
+/**
+ * Parses arguments according to a pattern.
+ * @param pattern The pattern to parse the arguments with.
+ * @param args The arguments, as strings or as returned from {@link tokenize}.
+ * @param messages The messages to use for errors.
+ * @param replies The posts the command replied to.
+ * @param bot The bot, used for resolving users. This is required if the
+ * pattern has a `"user"` argument.
+ * @param flags The flags that can be used in any position. See {@link Flags}.
+ * @returns The parsed arguments and flags, or the message describing why they
+ * couldn't be parsed.
+ */
+export const parseArgs = async <
+  const TPattern extends Pattern,
+  const TFlags extends Flags = Record<never, never>,
+>(
   pattern: TPattern,
-  args: string[],
+  args: (string | Token)[],
   messages: Messages,
   replies?: (RichPost | null)[],
-):
+  bot?: RoarBot,
+  flags?: TFlags,
+): Promise<
   | { error: true; message: string }
-  | { error: false; parsed: ResolvePattern<TPattern> } => {
+  | {
+      error: false;
+      parsed: ResolvePattern<TPattern>;
+      flags: ResolveFlags<TFlags>;
+    }
+> => {
   const parsed = [];
   let hadOptionals = false;
   let hadFull = false;
   let i = 0;
   let replyAmount = 0;
-  for (const slice of pattern) {
+  const flagEntries = Object.entries(flags ?? {});
+  const parsedFlags: Record<string, unknown> = Object.fromEntries(
+    flagEntries.map(([name, flag]) => [name, flag.type ? undefined : false]),
+  );
+  let flagsEnded = flagEntries.length === 0;
+  const parseFlags = async () => {
+    while (!flagsEnded && i < args.length) {
+      const arg = args[i];
+      const raw = typeof arg === "object" ? arg.rest : arg;
+      const value = typeof arg === "object" ? arg.value : arg;
+      if (value === "--" && raw.startsWith("--")) {
+        flagsEnded = true;
+        i++;
+        return null;
+      }
+      const match =
+        raw.startsWith("-") &&
+        (/^--([^=]+)(?:=(.*))?$/s.exec(value) ??
+          /^-([a-zA-Z])(?:=(.*))?$/s.exec(value));
+      if (!match) {
+        return null;
+      }
+      const [, key, inline] = match;
+      const entry = flagEntries.find(([name, flag]) =>
+        value.startsWith("--") ? name === key : flag.short === key,
+      );
+      if (!entry) {
+        return {
+          error: true as const,
+          message: messages.unknownFlag(JSON.stringify(value.split("=")[0])),
+        };
+      }
+      const [name, flag] = entry;
+      i++;
+      if (!flag.type && inline === undefined) {
+        parsedFlags[name] = true;
+        continue;
+      }
+      let string = inline;
+      if (string === undefined) {
+        const next = args[i];
+        if (next === undefined) {
+          return {
+            error: true as const,
+            message: messages.flagMissingValue(JSON.stringify(`--${name}`)),
+          };
+        }
+        string = typeof next === "object" ? next.value : next;
+        i++;
+      }
+      const result = await parseValue(
+        flag.type ?? "boolean",
+        string,
+        messages,
+        bot,
+      );
+      if (result.error) {
+        return result;
+      }
+      parsedFlags[name] = result.value;
+    }
+    return null;
+  };
+  for (const [index, slice] of pattern.entries()) {
     const isObject = typeof slice === "object" && "type" in slice;
     const type = isObject ? slice.type : slice;
     const optional = isObject && !!slice.optional;
@@ -94,7 +563,20 @@ export const parseArgs = <const TPattern extends Pattern>(
     }
     hadOptionals ||= optional;
     const name = isObject && !!slice.name;
-    const repr = name ? `${slice.name} (${type})` : `${type}`;
+    const typeName =
+      typeof type === "object" && !Array.isArray(type) ? type.name : `${type}`;
+    const repr = name ? `${slice.name} (${typeName})` : typeName;
+    if (
+      isObject &&
+      slice.variadic &&
+      (type === "full" || type === "reply" || index !== pattern.length - 1)
+    ) {
+      return {
+        error: true,
+        message:
+          "In this command's pattern, there is an argument following a variadic argument, or a variadic `full` or `reply` argument.\nThis is an issue with the bot, not your command.",
+      };
+    }
     if (type === "reply") {
       if (!replies?.[replyAmount]) {
         if (optional) {
@@ -108,68 +590,127 @@ export const parseArgs = <const TPattern extends Pattern>(
       }
       parsed.push(replies[replyAmount]);
       replyAmount++;
-      break;
+      continue;
     }
-    const current = args[i];
-    if (!current) {
-      if (optional) {
-        continue;
-      } else if (type !== "full") {
-        return { error: true, message: messages.argsMissing(repr) };
-      }
+    const flagError = await parseFlags();
+    if (flagError) {
+      return flagError;
     }
-    if (Array.isArray(type)) {
-      if (!type.includes(current)) {
+    const arg = args[i];
+    const current = typeof arg === "object" ? arg.value : arg;
+    if (type === "full") {
+      if (index !== pattern.length - 1) {
         return {
           error: true,
-          message: messages.argsNotInSet(
-            JSON.stringify(current),
-            type.map((t) => JSON.stringify(t)).join(", "),
-          ),
+          message:
+            "In this command's pattern, there is an argument following a `full` argument.\nThis is an issue with the bot, not your command.",
         };
       }
-      parsed.push(current);
+      if (current === undefined && optional) {
+        continue;
+      }
+      hadFull = true;
+      parsed.push(
+        typeof arg === "object" ?
+          arg.rest
+        : args
+            .slice(i)
+            .map((arg) => (typeof arg === "object" ? arg.value : arg))
+            .join(" "),
+      );
+      i = args.length;
       continue;
     }
-    switch (type) {
-      case "string": {
-        parsed.push(current);
-        i++;
-        break;
-      }
-      case "number": {
-        const number = Number(current);
-        if (Number.isNaN(number)) {
-          return {
-            error: true,
-            message: messages.argNan(JSON.stringify(current)),
-          };
+    if (isObject && slice.variadic) {
+      const values = [];
+      while (values.length < (slice.max ?? Infinity)) {
+        const flagError = await parseFlags();
+        if (flagError) {
+          return flagError;
         }
-        parsed.push(number);
-        i++;
-        break;
-      }
-      case "full": {
-        if (pattern[i + 1]) {
-          return {
-            error: true,
-            message:
-              "In this command's pattern, there is an argument following a `full` argument.\nThis is an issue with the bot, not your command.",
-          };
+        const arg = args[i];
+        if (arg === undefined) {
+          break;
+        }
+        const result = await parseValue(
+          type,
+          typeof arg === "object" ? arg.value : arg,
+          messages,
+          bot,
+        );
+        if (result.error) {
+          return result;
         }
-        hadFull = true;
-        parsed.push(args.slice(i).join(" "));
+        values.push(result.value);
         i++;
-        break;
       }
-      default:
-        (type) satisfies never;
+      const min = slice.min ?? (optional ? 0 : 1);
+      if (values.length < min) {
+        return { error: true, message: messages.argsTooFew(repr, min) };
+      }
+      parsed.push(values);
+      continue;
+    }
+    if (current === undefined) {
+      if (optional) {
+        continue;
+      }
+      return { error: true, message: messages.argsMissing(repr) };
+    }
+    const result = await parseValue(type, current, messages, bot);
+    if (result.error) {
+      return result;
     }
+    parsed.push(result.value);
+    i++;
   }
-  if (!hadFull && args.length + replyAmount !== parsed.length) {
+  const flagError = await parseFlags();
+  if (flagError) {
+    return flagError;
+  }
+  if (!hadFull && i < args.length) {
     return { error: true, message: messages.tooManyArgs };
   }
-  return { error: false, parsed: parsed as ResolvePattern<TPattern> };
+  return {
+    error: false,
+    parsed: parsed as ResolvePattern<TPattern>,
+    flags: parsedFlags as ResolveFlags<TFlags>,
+  };
+};
+
+/**
+ * Turns the pattern into a human readable format.
+ * @param pattern The pattern.
+ */
+export const stringifyPattern = (pattern: Pattern): string => {
+  return pattern
+    .map((patternType) =>
+      typeof patternType === "object" && "type" in patternType ?
+        (patternType.optional ? "[" : "<") +
+        ((patternType.name ? `${patternType.name}: ` : "") +
+          stringifyPatternType(patternType.type)) +
+        (patternType.variadic ? "..." : "") +
+        (patternType.optional ? "]" : ">")
+      : `(${stringifyPatternType(patternType)})`,
+    )
+    .join(" ");
+};
+
+/**
+ * Turns flags into a human readable format.
+ * @param flags The flags.
+ */
+export const stringifyFlags = (flags: Flags): string => {
+  return Object.entries(flags)
+    .map(
+      ([name, flag]) =>
+        "[" +
+        (flag.short ? `-${flag.short}|` : "") +
+        `--${name}` +
+        (flag.type ? ` <${stringifyPatternType(flag.type)}>` : "") +
+        "]",
+    )
+    .join(" ");
 };
 
 /**
@@ -182,6 +723,8 @@ export const stringifyPatternType = (patternType: PatternType): string => {
       patternType === "full" ?
         "full string"
       : patternType
-    : patternType.map((option) => JSON.stringify(option)).join(" | ")
+    : Array.isArray(patternType) ?
+      patternType.map((option) => JSON.stringify(option)).join(" | ")
+    : patternType.name
   );
 };
@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import {
+  MemoryBanStore,
+  MemoryStorage,
+  parseArgs,
+  type Pattern,
+  RoarBot,
+  tokenize,
+} from "./mod.ts";
+import { FakeMeowerServer } from "./testing.ts";
+
+const bot = new RoarBot({
+  transport: new FakeMeowerServer().transport,
+  loggingLevel: "none",
+  session: false,
+  bans: new MemoryBanStore(),
+  storage: new MemoryStorage(),
+});
+const messages = bot.messages;
+await bot.stop();
+
+Deno.test("tokenize splits on whitespace", () => {
+  assert.deepEqual(
+    tokenize("  a  b\tc ").map((token) => token.value),
+    ["a", "b", "c"],
+  );
+});
+
+Deno.test("tokenize keeps quoted text together", () => {
+  assert.deepEqual(
+    tokenize(`remind "team standup" 'at 10'`).map((token) => token.value),
+    ["remind", "team standup", "at 10"],
+  );
+});
+
+Deno.test("tokenize keeps apostrophes in words", () => {
+  assert.deepEqual(
+    tokenize("Josh G'day").map((token) => token.value),
+    ["Josh", "G'day"],
+  );
+  assert.deepEqual(
+    tokenize("say don't stop me now").map((token) => token.value),
+    ["say", "don't", "stop", "me", "now"],
+  );
+  assert.deepEqual(
+    tokenize(`"it's here" now`).map((token) => token.value),
+    ["it's here", "now"],
+  );
+});
+
+Deno.test("tokenize keeps quotes that are never closed", () => {
+  assert.deepEqual(
+    tokenize("'tis the season").map((token) => token.value),
+    ["'tis", "the", "season"],
+  );
+  assert.deepEqual(
+    tokenize(`"a" "b c`).map((token) => token.value),
+    ["a", `"b`, "c"],
+  );
+});
+
+Deno.test("tokenize resolves escapes", () => {
+  assert.deepEqual(
+    tokenize(String.raw`a\ b \"c`).map((token) => token.value),
+    ["a b", '"c'],
+  );
+});
+
+Deno.test("tokenize keeps the raw rest of the command", () => {
+  assert.deepEqual(
+    tokenize(`say "hi"  there`).map((token) => token.rest),
+    [`say "hi"  there`, `"hi"  there`, "there"],
+  );
+});
+
+Deno.test("parseArgs parses basic arguments", async () => {
+  assert.deepEqual(
+    await parseArgs(["number", "string"], tokenize("2 4"), messages),
+    { error: false, parsed: [2, "4"], flags: {} },
+  );
+});
+
+Deno.test("parseArgs parses arguments with apostrophes", async () => {
+  assert.deepEqual(
+    await parseArgs(["string", "string"], tokenize("I'm here"), messages),
+    { error: false, parsed: ["I'm", "here"], flags: {} },
+  );
+});
+
+Deno.test("parseArgs rejects empty numbers", async () => {
+  for (const type of ["number", "integer"] as const) {
+    assert.equal(
+      (await parseArgs([type], tokenize(`""`), messages)).error,
+      true,
+    );
+  }
+});
+
+Deno.test("parseArgs only accepts ISO dates", async () => {
+  assert.deepEqual(
+    await parseArgs(["date"], tokenize("2024-11-08T12:00Z"), messages),
+    {
+      error: false,
+      parsed: [new Date("2024-11-08T12:00Z")],
+      flags: {},
+    },
+  );
+  for (const date of ["1", "November 8", "2024"]) {
+    assert.equal(
+      (await parseArgs(["date"], tokenize(date), messages)).error,
+      true,
+    );
+  }
+});
+
+Deno.test("parseArgs fails on missing arguments", async () => {
+  const result = await parseArgs(["number", "string"], tokenize("2"), messages);
+  assert.equal(result.error, true);
+});
+
+Deno.test("parseArgs parses full arguments", async () => {
+  assert.deepEqual(
+    await parseArgs(
+      ["number", "full"],
+      tokenize(`7 Hello,  "world"!`),
+      messages,
+    ),
+    { error: false, parsed: [7, `Hello,  "world"!`], flags: {} },
+  );
+});
+
+Deno.test("parseArgs parses variadic arguments", async () => {
+  assert.deepEqual(
+    await parseArgs(
+      ["string", { type: "number", variadic: true }],
+      tokenize("a 1 2 3"),
+      messages,
+    ),
+    { error: false, parsed: ["a", [1, 2, 3]], flags: {} },
+  );
+});
+
+Deno.test("parseArgs respects the bounds of variadic arguments", async () => {
+  const pattern: Pattern = [{ type: "number", variadic: true, min: 2, max: 3 }];
+  assert.equal((await parseArgs(pattern, tokenize("1"), messages)).error, true);
+  assert.equal(
+    (await parseArgs(pattern, tokenize("1 2 3 4"), messages)).error,
+    true,
+  );
+  assert.deepEqual(await parseArgs(pattern, tokenize("1 2"), messages), {
+    error: false,
+    parsed: [[1, 2]],
+    flags: {},
+  });
+});
+
+Deno.test("parseArgs rejects variadic full and reply arguments", async () => {
+  for (const type of ["full", "reply"] as const) {
+    assert.equal(
+      (
+        await parseArgs(
+          [{ type, variadic: true }],
+          tokenize("a b"),
+          messages,
+          [],
+        )
+      ).error,
+      true,
+    );
+  }
+});
+
+Deno.test("parseArgs parses flags in any position", async () => {
+  const flags = {
+    verbose: { short: "v" },
+    limit: { type: "integer", short: "l" },
+  } as const;
+  assert.deepEqual(
+    await parseArgs(
+      ["string", "string"],
+      tokenize("a --limit=5 b -v"),
+      messages,
+      undefined,
+      undefined,
+      flags,
+    ),
+    { error: false, parsed: ["a", "b"], flags: { verbose: true, limit: 5 } },
+  );
+  assert.deepEqual(
+    await parseArgs(
+      ["string"],
+      tokenize("-l 2 a"),
+      messages,
+      undefined,
+      undefined,
+      flags,
+    ),
+    { error: false, parsed: ["a"], flags: { verbose: false, limit: 2 } },
+  );
+});
+
+Deno.test("parseArgs stops parsing flags after --", async () => {
+  assert.deepEqual(
+    await parseArgs(
+      ["string"],
+      tokenize("-- --verbose"),
+      messages,
+      undefined,
+      undefined,
+      { verbose: {} },
+    ),
+    { error: false, parsed: ["--verbose"], flags: { verbose: false } },
+  );
+});
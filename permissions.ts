@@ -0,0 +1,146 @@
+/**
+ * Roles and the permissions they grant. The keys are the names of the roles.
+ * The permission `*` grants every permission. The `admin` role has it by
+ * default.
+ * @example
+ * ```ts
+ * const roles: Roles = {
+ *   moderator: ["ban", "mute"],
+ *   trusted: ["poll"],
+ * };
+ * ```
+ */
+export type Roles = Record<string, string[]>;
+
+/**
+ * Which users have which roles. The keys are the usernames, the values the
+ * names of the roles.
+ */
+export type RoleAssignments = Record<string, string[]>;
+
+/**
+ * A function deciding whether a user has a permission, called before the
+ * roles are checked.
+ * @param username The username of the user.
+ * @param permission The permission.
+ * @param chat The chat the permission is needed in, if any.
+ * @returns Whether the user has the permission, or `undefined` to decide based
+ * on the roles of the user.
+ */
+export type PermissionCheck = (
+  username: string,
+  permission: string,
+  chat: string | undefined,
+) => boolean | undefined | Promise<boolean | undefined>;
+
+export class Permissions {
+  private _roles: Map<string, string[]>;
+  private _global = new Map<string, Set<string>>();
+  private _chats = new Map<string, Map<string, Set<string>>>();
+  private _check?: PermissionCheck;
+
+  constructor(
+    roles: Roles,
+    assignments: RoleAssignments,
+    chatAssignments: Record<string, RoleAssignments>,
+    check?: PermissionCheck,
+  ) {
+    this._roles = new Map(Object.entries({ admin: ["*"], ...roles }));
+    this._check = check;
+    Object.entries(assignments).forEach(([username, roles]) => {
+      roles.forEach((role) => {
+        this.grant(username, role);
+      });
+    });
+    Object.entries(chatAssignments).forEach(([chat, assignments]) => {
+      Object.entries(assignments).forEach(([username, roles]) => {
+        roles.forEach((role) => {
+          this.grant(username, role, chat);
+        });
+      });
+    });
+  }
+
+  private _assignments(chat?: string) {
+    if (chat === undefined) {
+      return this._global;
+    }
+    const assignments = this._chats.get(chat) ?? new Map();
+    this._chats.set(chat, assignments);
+    return assignments;
+  }
+
+  /**
+   * Give a user a role.
+   * @param username The username of the user.
+   * @param role The name of the role.
+   * @param chat The chat the role applies to. If not given, the role applies
+   * everywhere.
+   * @throws If the role doesn't exist.
+   */
+  grant(username: string, role: string, chat?: string) {
+    if (!this._roles.has(role)) {
+      throw new Error(`The role ${JSON.stringify(role)} doesn't exist.`);
+    }
+    const assignments = this._assignments(chat);
+    const roles = assignments.get(username.toLowerCase()) ?? new Set();
+    roles.add(role);
+    assignments.set(username.toLowerCase(), roles);
+  }
+
+  /**
+   * Take a role from a user.
+   * @param username The username of the user.
+   * @param role The name of the role.
+   * @param chat The chat the role applied to. If not given, the role is only
+   * taken where it applied everywhere.
+   * @returns Whether the user had the role.
+   */
+  revoke(username: string, role: string, chat?: string): boolean {
+    return (
+      this._assignments(chat).get(username.toLowerCase())?.delete(role) ?? false
+    );
+  }
+
+  /**
+   * Get the roles of a user.
+   * @param username The username of the user.
+   * @param chat The chat to include the roles of.
+   * @returns The names of the roles.
+   */
+  roles(username: string, chat?: string): string[] {
+    const name = username.toLowerCase();
+    const chatRoles =
+      chat === undefined ? undefined : this._chats.get(chat)?.get(name);
+    return [
+      ...new Set([...(this._global.get(name) ?? []), ...(chatRoles ?? [])]),
+    ];
+  }
+
+  /**
+   * Check whether a user has a permission.
+   * @param username The username of the user.
+   * @param permission The permission.
+   * @param chat The chat the permission is needed in.
+   */
+  async has(
+    username: string,
+    permission: string,
+    chat?: string,
+  ): Promise<boolean> {
+    const checked = await this._check?.(username, permission, chat);
+    if (checked !== undefined) {
+      return checked;
+    }
+    return this.roles(username, chat).some((role) =>
+      this._roles
+        .get(role)!
+        .some((granted) => granted === "*" || granted === permission),
+    );
+  }
+
+  /** Whether a role exists. */
+  exists(role: string): boolean {
+    return this._roles.has(role);
+  }
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { Permissions } from "./permissions.ts";
+
+Deno.test("Permissions grants permissions through roles", async () => {
+  const permissions = new Permissions(
+    { moderator: ["ban"] },
+    { Josh: ["moderator"] },
+    { chat: { Bear: ["admin"] } },
+  );
+  assert.equal(await permissions.has("josh", "ban"), true);
+  assert.equal(await permissions.has("Josh", "mute"), false);
+  assert.equal(await permissions.has("Bear", "mute"), false);
+  assert.equal(await permissions.has("Bear", "mute", "chat"), true);
+});
+
+Deno.test("Permissions rejects roles that don't exist", async () => {
+  const permissions = new Permissions({}, {}, {});
+  assert.throws(() => permissions.grant("Josh", "moderator"));
+  assert.throws(() => permissions.grant("Josh", "toString"));
+  assert.equal(permissions.exists("toString"), false);
+  assert.equal(permissions.exists("admin"), true);
+  assert.equal(await permissions.has("Josh", "ban"), false);
+});
@@ -0,0 +1,39 @@
+import type { Pattern, ResolvePattern } from "./mod.ts";
+
+/**
+ * Options that can be passed into {@link RoarBot.prototype.awaitPost} and
+ * {@link RichPost.prototype.awaitReply}.
+ */
+export type AwaitOptions = {
+  /**
+   * How long to wait in milliseconds. By default, this is 60000.
+   */
+  timeout?: number;
+};
+
+/**
+ * Options that can be passed into {@link RichPost.prototype.prompt} and
+ * {@link RichPost.prototype.dialog}.
+ */
+export type PromptOptions = AwaitOptions & {
+  /**
+   * How often an invalid answer can be given before giving up. By default,
+   * this is 3.
+   */
+  attempts?: number;
+};
+
+/** A question in a {@link RichPost.prototype.dialog}. */
+export type DialogStep = {
+  /** The key of the answer in the result. */
+  key: string;
+  /** The question to ask. */
+  question: string;
+  /** The argument the answer has to be, like in a command pattern. */
+  arg: Pattern[number];
+};
+
+/** The answers of a dialog, by the keys of the steps. */
+export type ResolveDialog<TSteps extends DialogStep[]> = {
+  [TStep in TSteps[number] as TStep["key"]]: ResolvePattern<[TStep["arg"]]>[0];
+};
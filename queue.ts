@@ -0,0 +1,156 @@
+/**
+ * How the bot limits the rate of its posts. Posts are sent at most `limit`
+ * times per `window`. If the API responds with `429 Too Many Requests` anyway,
+ * the post is retried after the time in the `Retry-After` header.
+ */
+export type RateLimitOptions = {
+  /** How many posts can be sent per window. By default, this is 6. */
+  limit?: number;
+  /** The length of the window in milliseconds. By default, this is 5000. */
+  window?: number;
+  /**
+   * How often to retry a post that got rate limited. By default, this is 3.
+   */
+  maxRetries?: number;
+  /**
+   * How long to wait before retrying if the API doesn't say how long to wait,
+   * in milliseconds. This doubles with every retry. By default, this is 1000.
+   */
+  retryDelay?: number;
+};
+
+/** Statistics about the posts the bot sends. */
+export type QueueMetrics = {
+  /** How many posts are waiting to be sent or are being sent. */
+  length: number;
+  /** How many posts have been sent. */
+  sent: number;
+  /** How many times a post had to be retried because of rate limits. */
+  retried: number;
+  /** How many posts couldn't be sent. */
+  failed: number;
+};
+
+/**
+ * A queue that sends requests while respecting rate limits. Requests to the
+ * same chat are sent in the order they were queued.
+ */
+export class PostQueue {
+  private _options: Required<RateLimitOptions>;
+  private _chats = new Map<string, Promise<unknown>>();
+  private _sentAt: number[] = [];
+  private _pausedUntil = 0;
+  private _metrics: QueueMetrics = {
+    length: 0,
+    sent: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  /**
+   * Create a queue.
+   * @param options Some options. See {@link RateLimitOptions} for more details.
+   */
+  constructor(options?: RateLimitOptions) {
+    this._options = {
+      limit: 6,
+      window: 5000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Queue a request.
+   * @param chat The chat the request posts to.
+   * @param request A function making the request. It may be called multiple
+   * times if the request gets rate limited.
+   * @returns The response of the last try.
+   * @throws If the request throws.
+   */
+  async enqueue(
+    chat: string,
+    request: () => Promise<Response>,
+  ): Promise<Response> {
+    this._metrics.length++;
+    const current = (this._chats.get(chat) ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => this._send(request));
+    this._chats.set(chat, current);
+    try {
+      return await current;
+    } finally {
+      this._metrics.length--;
+      if (this._chats.get(chat) === current) {
+        this._chats.delete(chat);
+      }
+    }
+  }
+
+  /** Statistics about the queue. */
+  get metrics(): QueueMetrics {
+    return { ...this._metrics };
+  }
+
+  private async _send(request: () => Promise<Response>) {
+    for (let attempt = 0; ; attempt++) {
+      await this._waitForSlot();
+      let response;
+      try {
+        response = await request();
+      } catch (e) {
+        this._metrics.failed++;
+        throw e;
+      }
+      if (response.status !== 429) {
+        this._metrics[response.ok ? "sent" : "failed"]++;
+        return response;
+      }
+      if (attempt >= this._options.maxRetries) {
+        this._metrics.failed++;
+        return response;
+      }
+      this._metrics.retried++;
+      await response.body?.cancel();
+      this._pausedUntil = Math.max(
+        this._pausedUntil,
+        Date.now() +
+          (parseRetryAfter(response.headers.get("Retry-After")) ??
+            this._options.retryDelay * 2 ** attempt),
+      );
+    }
+  }
+
+  private async _waitForSlot() {
+    while (true) {
+      const now = Date.now();
+      this._sentAt = this._sentAt.filter(
+        (sentAt) => now - sentAt < this._options.window,
+      );
+      const wait = Math.max(
+        this._pausedUntil - now,
+        this._sentAt.length >= this._options.limit ?
+          this._sentAt[0] + this._options.window - now
+        : 0,
+      );
+      if (wait <= 0) {
+        this._sentAt.push(now);
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
+
+const parseRetryAfter = (header: string | null) => {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : date - Date.now();
+};
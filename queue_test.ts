@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { PostQueue } from "./queue.ts";
+
+Deno.test("PostQueue retries rate limited requests", async () => {
+  const queue = new PostQueue({ retryDelay: 1 });
+  let calls = 0;
+  const response = await queue.enqueue("home", () => {
+    calls++;
+    return Promise.resolve(
+      calls < 3 ?
+        new Response(null, { status: 429, headers: { "Retry-After": "0" } })
+      : new Response("ok"),
+    );
+  });
+  assert.equal(await response.text(), "ok");
+  assert.equal(calls, 3);
+  assert.deepEqual(queue.metrics, {
+    length: 0,
+    sent: 1,
+    retried: 2,
+    failed: 0,
+  });
+});
+
+Deno.test("PostQueue gives up after maxRetries", async () => {
+  const queue = new PostQueue({ maxRetries: 1, retryDelay: 1 });
+  let calls = 0;
+  const response = await queue.enqueue("home", () => {
+    calls++;
+    return Promise.resolve(new Response(null, { status: 429 }));
+  });
+  assert.equal(response.status, 429);
+  assert.equal(calls, 2);
+  assert.deepEqual(queue.metrics, {
+    length: 0,
+    sent: 0,
+    retried: 1,
+    failed: 1,
+  });
+});
+
+Deno.test("PostQueue keeps the order of requests to a chat", async () => {
+  const queue = new PostQueue();
+  const order: number[] = [];
+  const request = (n: number, delay: number) => () =>
+    new Promise<Response>((resolve) =>
+      setTimeout(() => {
+        order.push(n);
+        resolve(new Response());
+      }, delay),
+    );
+  await Promise.all([
+    queue.enqueue("home", request(1, 20)),
+    queue.enqueue("home", request(2, 0)),
+    queue.enqueue("home", request(3, 10)),
+  ]);
+  assert.deepEqual(order, [1, 2, 3]);
+});
@@ -3,7 +3,20 @@
 // yes i want to do something about it but i cant
 // - mbw
 
-import type { Post, PostOptions, RoarBot } from "../mod.ts";
+import type {
+  Pattern,
+  Post,
+  PostOptions,
+  ResolvePattern,
+  RoarBot,
+} from "../mod.ts";
+import { parseArgs, tokenize } from "../patterns.ts";
+import type {
+  AwaitOptions,
+  DialogStep,
+  PromptOptions,
+  ResolveDialog,
+} from "../prompt.ts";
 import type { Attachment } from "../types.ts";
 
 export class RichPost implements Post {
@@ -71,27 +84,34 @@ export class RichPost implements Post {
   reply_to!: (RichPost | null)[];
   private _bot!: RoarBot;
 
-  private static _posts = new Map<string, RichPost>();
+  private static _bots = new WeakSet<RoarBot>();
 
   constructor(post: Post, bot: RoarBot) {
-    const existingPost = RichPost._posts.get(post.post_id);
+    const existingPost = bot.posts.get(post.post_id);
     if (existingPost) {
       existingPost._applyPost(post);
       return existingPost;
     }
-    RichPost._posts.set(post.post_id, this);
     this._bot = bot;
     this._applyPost(post);
-    this._bot.on("updatePost", (_reply, post) => {
-      if (post.id === this.id) {
-        this._applyPost(post);
-        this._events.update.forEach((callback) => callback());
-      }
+    bot.posts.set(this);
+    RichPost._listen(bot);
+  }
+
+  private static _listen(bot: RoarBot) {
+    if (RichPost._bots.has(bot)) {
+      return;
+    }
+    RichPost._bots.add(bot);
+    bot.on("updatePost", (_reply, post) => {
+      post._events.update.forEach((callback) => callback());
     });
-    this._bot.on("deletePost", (id) => {
-      if (id === this.id) {
-        this.isDeleted = true;
-        this._events.delete.forEach((callback) => callback());
+    bot.on("deletePost", (id) => {
+      const post = bot.posts.get(id);
+      if (post) {
+        bot.posts.delete(id);
+        post.isDeleted = true;
+        post._events.delete.forEach((callback) => callback());
       }
     });
   }
@@ -164,8 +184,24 @@ export class RichPost implements Post {
   on<TEvent extends keyof RichPostEvents>(
     event: TEvent,
     callback: RichPostEvents[TEvent],
-  ) {
+  ): () => void {
     this._events[event].push(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Stop listening to an event.
+   * @param event The event that was listened to.
+   * @param callback The callback that was passed into
+   * {@link RichPost.prototype.on}.
+   */
+  off<TEvent extends keyof RichPostEvents>(
+    event: TEvent,
+    callback: RichPostEvents[TEvent],
+  ) {
+    this._events[event] = this._events[event].filter(
+      (other) => other !== callback,
+    );
   }
 
   async edit(newContent: string) {
@@ -175,11 +211,14 @@ export class RichPost implements Post {
     if (this._bot.username?.toLowerCase() !== this.username.toLowerCase()) {
       throw new Error("This post is not made by the bot.");
     }
-    const response = await fetch(`https://api.meower.org/posts?id=${this.id}`, {
-      method: "PATCH",
-      body: JSON.stringify({ content: newContent }),
-      headers: { Token: this._bot.token, "Content-Type": "application/json" },
-    });
+    const response = await this._bot.transport.fetch(
+      `${this._bot.endpoints.api}/posts?id=${this.id}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ content: newContent }),
+        headers: { Token: this._bot.token, "Content-Type": "application/json" },
+      },
+    );
     if (!response.ok) {
       throw new Error(
         `Couldn't edit post. The API returned ${response.status}`,
@@ -200,10 +239,13 @@ export class RichPost implements Post {
     if (this._bot.username?.toLowerCase() !== this.username.toLowerCase()) {
       throw new Error("This post is not made by the bot.");
     }
-    const response = await fetch(`https://api.meower.org/posts?id=${this.id}`, {
-      method: "DELETE",
-      headers: { Token: this._bot.token },
-    });
+    const response = await this._bot.transport.fetch(
+      `${this._bot.endpoints.api}/posts?id=${this.id}`,
+      {
+        method: "DELETE",
+        headers: { Token: this._bot.token },
+      },
+    );
     if (!response.ok) {
       throw new Error(
         `Couldn't delete post. The API returned ${response.status}`,
@@ -211,6 +253,144 @@ export class RichPost implements Post {
     }
   }
 
+  /**
+   * Reacts to this post.
+   * @param emoji The emoji to react with.
+   * @throws If the bot isn't logged in.
+   * @throws If the API returns an error.
+   */
+  async react(emoji: string) {
+    if (!this._bot.token) {
+      throw new Error("The bot is not logged in.");
+    }
+    const response = await this._bot.transport.fetch(
+      `${this._bot.endpoints.api}/posts/${this.id}/reactions/${encodeURIComponent(emoji)}`,
+      {
+        method: "POST",
+        headers: { Token: this._bot.token },
+      },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Couldn't react to post. The API returned ${response.status}`,
+      );
+    }
+  }
+
+  /**
+   * Waits for a post replying to this post.
+   * @param options Some options. See {@link AwaitReplyOptions} for details.
+   * @returns The reply, or `null` if there was none in time.
+   */
+  awaitReply(options?: AwaitReplyOptions): Promise<RichPost | null> {
+    return this._bot.awaitPost(
+      (post) =>
+        post.replyTo.some((reply) => reply?.id === this.id) &&
+        (options?.from === undefined ||
+          post.username.toLowerCase() === options.from.toLowerCase()),
+      options,
+    );
+  }
+
+  /**
+   * Asks the user who made this post a question by replying to it, and waits
+   * for their next post in the same chat. If the answer doesn't match the
+   * pattern, the user is told why and can try again. The user can reply with
+   * the `promptCancel` message to cancel.
+   * @param question The question.
+   * @param args The pattern the answer has to match. See {@link Pattern} for
+   * details.
+   * @param options Some options. See {@link PromptOptions} for details.
+   * @returns The parsed answer, or `null` if the user didn't answer in time,
+   * cancelled, gave up, or the bot stopped.
+   * @throws When {@link RoarBot.prototype.post} throws.
+   * @example
+   * ```ts
+   * const answer = await post.prompt("How old are you?", ["integer"]);
+   * if (answer) {
+   *   const [age] = answer;
+   * }
+   * ```
+   */
+  async prompt<const TPattern extends Pattern>(
+    question: string,
+    args: TPattern,
+    options?: PromptOptions,
+  ): Promise<ResolvePattern<TPattern> | null> {
+    const messages = this._bot.messages;
+    await this.reply(question);
+    for (let attempt = 0; attempt < (options?.attempts ?? 3); attempt++) {
+      const answer = await this._bot.awaitPost(
+        (post) =>
+          post.username.toLowerCase() === this.username.toLowerCase() &&
+          post.origin === this.origin,
+        options,
+      );
+      if (!answer) {
+        // Waiting also ends when the bot stops, which isn't a timeout.
+        if (this._bot.status !== "disconnected") {
+          await this.reply(messages.promptTimeout);
+        }
+        return null;
+      }
+      if (
+        answer.content.trim().toLowerCase() ===
+        messages.promptCancel.toLowerCase()
+      ) {
+        await answer.reply(messages.promptCancelled);
+        return null;
+      }
+      const parsed = await parseArgs(
+        args,
+        tokenize(answer.content),
+        messages,
+        answer.replyTo,
+        this._bot,
+      );
+      if (!parsed.error) {
+        return parsed.parsed;
+      }
+      await answer.reply(parsed.message);
+    }
+    await this.reply(messages.promptCancelled);
+    return null;
+  }
+
+  /**
+   * Asks the user who made this post multiple questions in a row with
+   * {@link RichPost.prototype.prompt}.
+   * @param steps The questions.
+   * @param options Some options, used for every question. See
+   * {@link PromptOptions} for details.
+   * @returns The answers by the keys of the questions, or `null` if a question
+   * wasn't answered.
+   * @throws When {@link RoarBot.prototype.post} throws.
+   * @example
+   * ```ts
+   * const answers = await post.dialog([
+   *   { key: "name", question: "What's your name?", arg: "full" },
+   *   { key: "age", question: "How old are you?", arg: "integer" },
+   * ]);
+   * if (answers) {
+   *   await post.reply(`${answers.name} is ${answers.age} years old.`);
+   * }
+   * ```
+   */
+  async dialog<const TSteps extends DialogStep[]>(
+    steps: TSteps,
+    options?: PromptOptions,
+  ): Promise<ResolveDialog<TSteps> | null> {
+    const answers: Record<string, unknown> = {};
+    for (const step of steps) {
+      const answer = await this.prompt(step.question, [step.arg], options);
+      if (!answer) {
+        return null;
+      }
+      answers[step.key] = answer[0];
+    }
+    return answers as ResolveDialog<TSteps>;
+  }
+
   /**
    * Replies to this post.
    * @param content The content of the reply.
@@ -230,6 +410,12 @@ export class RichPost implements Post {
     });
   }
 }
+/** Options that can be passed into {@link RichPost.prototype.awaitReply}. */
+export type AwaitReplyOptions = AwaitOptions & {
+  /** Only wait for replies from this user. */
+  from?: string;
+};
+
 /**
  * A mapping of `RichPosts` event to their respective callbacks.
  */
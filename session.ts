@@ -0,0 +1,96 @@
+import { hasFilePermission, readJsonFile, writeJsonFile } from "./file.ts";
+
+/**
+ * Stores the tokens of accounts so that bots can reuse their session after
+ * restarting instead of logging in again.
+ */
+export type SessionStore = {
+  /**
+   * Get the stored token of an account.
+   * @param username The username of the account.
+   * @returns The token, or `undefined` if there is none.
+   */
+  get(username: string): Promise<string | undefined>;
+  /**
+   * Store the token of an account.
+   * @param username The username of the account.
+   * @param token The token.
+   */
+  set(username: string, token: string): Promise<void>;
+  /**
+   * Remove the token of an account.
+   * @param username The username of the account.
+   */
+  delete(username: string): Promise<void>;
+};
+
+/**
+ * A {@link SessionStore} that keeps tokens in a JSON file. This is the default
+ * session store. If the bot doesn't run in Deno or doesn't have permission to
+ * read and write the file, sessions aren't persisted. If the file isn't valid
+ * JSON, it is ignored.
+ */
+export class FileSessionStore implements SessionStore {
+  private _path: string;
+
+  /**
+   * Create a file session store.
+   * @param path The path of the file. By default, this is
+   * `.roarbot-sessions.json`.
+   */
+  constructor(path = ".roarbot-sessions.json") {
+    this._path = path;
+  }
+
+  private async _read(): Promise<Record<string, string>> {
+    if (!(await hasFilePermission("read", this._path))) {
+      return {};
+    }
+    return ((await readJsonFile(this._path)) ?? {}) as Record<string, string>;
+  }
+
+  private async _write(sessions: Record<string, string>) {
+    if (!(await hasFilePermission("write", this._path))) {
+      return;
+    }
+    await writeJsonFile(this._path, sessions, { mode: 0o600 });
+  }
+
+  async get(username: string): Promise<string | undefined> {
+    return (await this._read())[username.toLowerCase()];
+  }
+
+  async set(username: string, token: string) {
+    const sessions = await this._read();
+    sessions[username.toLowerCase()] = token;
+    await this._write(sessions);
+  }
+
+  async delete(username: string) {
+    const sessions = await this._read();
+    if (!(username.toLowerCase() in sessions)) {
+      return;
+    }
+    delete sessions[username.toLowerCase()];
+    await this._write(sessions);
+  }
+}
+
+/** A {@link SessionStore} that only keeps tokens while the process runs. */
+export class MemorySessionStore implements SessionStore {
+  private _sessions = new Map<string, string>();
+
+  get(username: string): Promise<string | undefined> {
+    return Promise.resolve(this._sessions.get(username.toLowerCase()));
+  }
+
+  set(username: string, token: string): Promise<void> {
+    this._sessions.set(username.toLowerCase(), token);
+    return Promise.resolve();
+  }
+
+  delete(username: string): Promise<void> {
+    this._sessions.delete(username.toLowerCase());
+    return Promise.resolve();
+  }
+}
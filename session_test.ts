@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { FileSessionStore } from "./session.ts";
+
+Deno.test("FileSessionStore persists sessions", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/sessions.json`;
+  await new FileSessionStore(path).set("BearBot", "token");
+  assert.equal(await new FileSessionStore(path).get("bearbot"), "token");
+  assert.deepEqual(
+    (await Array.fromAsync(Deno.readDir(dir))).map((entry) => entry.name),
+    ["sessions.json"],
+  );
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileSessionStore ignores invalid files", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/sessions.json`;
+  await Deno.writeTextFile(path, `{"bearbot": "tok`);
+  const store = new FileSessionStore(path);
+  assert.equal(await store.get("BearBot"), undefined);
+  await store.set("BearBot", "token");
+  assert.equal(await store.get("BearBot"), "token");
+  await Deno.remove(dir, { recursive: true });
+});
@@ -0,0 +1,261 @@
+import { hasFilePermission, readJsonFile, writeJsonFile } from "./file.ts";
+import { STORAGE_FILE_SCHEMA } from "./types.ts";
+
+/**
+ * Where {@link BotStorage} keeps its data. Keys are arrays of strings, like in
+ * Deno KV. Values have to be serializable as JSON.
+ */
+export type StorageAdapter = {
+  /**
+   * Get a value.
+   * @param key The key of the value.
+   * @returns The value, or `undefined` if there is none.
+   */
+  get(key: string[]): Promise<unknown>;
+  /**
+   * Store a value.
+   * @param key The key of the value.
+   * @param value The value. Storing `undefined` removes the value.
+   * @throws If the value isn't serializable as JSON.
+   */
+  set(key: string[], value: unknown): Promise<void>;
+  /**
+   * Remove a value.
+   * @param key The key of the value.
+   */
+  delete(key: string[]): Promise<void>;
+  /**
+   * Get all values whose key starts with a prefix.
+   * @param prefix The prefix.
+   * @returns The keys and values.
+   */
+  list(prefix: string[]): Promise<[string[], unknown][]>;
+};
+
+const startsWith = (key: string[], prefix: string[]) =>
+  prefix.every((part, i) => key[i] === part);
+
+const toJson = (value: unknown): unknown => {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    json = undefined;
+  }
+  if (json === undefined) {
+    throw new Error(
+      "The value can't be stored as it isn't serializable as JSON.",
+    );
+  }
+  return JSON.parse(json);
+};
+
+/** A {@link StorageAdapter} that only keeps values while the process runs. */
+export class MemoryStorage implements StorageAdapter {
+  private _values = new Map<string, [string[], unknown]>();
+
+  get(key: string[]): Promise<unknown> {
+    return Promise.resolve(
+      structuredClone(this._values.get(JSON.stringify(key))?.[1]),
+    );
+  }
+
+  set(key: string[], value: unknown): Promise<void> {
+    if (value === undefined) {
+      return this.delete(key);
+    }
+    return new Promise((resolve) => {
+      this._values.set(JSON.stringify(key), [key, toJson(value)]);
+      resolve();
+    });
+  }
+
+  delete(key: string[]): Promise<void> {
+    this._values.delete(JSON.stringify(key));
+    return Promise.resolve();
+  }
+
+  list(prefix: string[]): Promise<[string[], unknown][]> {
+    return Promise.resolve(
+      [...this._values.values()]
+        .filter(([key]) => startsWith(key, prefix))
+        .map(([key, value]) => [key, structuredClone(value)]),
+    );
+  }
+}
+
+/**
+ * A {@link StorageAdapter} that keeps values in a JSON file. This is the
+ * default storage adapter. If the bot doesn't run in Deno or doesn't have
+ * permission to read and write the file, values are only kept while the
+ * process runs. If the file isn't valid JSON or doesn't have the expected
+ * format, it is ignored.
+ */
+export class FileStorage implements StorageAdapter {
+  private _path: string;
+  private _values?: Promise<Map<string, [string[], unknown]>>;
+  private _writing = Promise.resolve();
+
+  /**
+   * Create a file storage.
+   * @param path The path of the file. By default, this is
+   * `.roarbot-storage.json`.
+   */
+  constructor(path = ".roarbot-storage.json") {
+    this._path = path;
+  }
+
+  private _read(): Promise<Map<string, [string[], unknown]>> {
+    this._values ??= this._load().catch((e) => {
+      this._values = undefined;
+      throw e;
+    });
+    return this._values;
+  }
+
+  private async _load(): Promise<Map<string, [string[], unknown]>> {
+    const stored =
+      (await hasFilePermission("read", this._path)) ?
+        ((await readJsonFile(this._path, STORAGE_FILE_SCHEMA)) ?? [])
+      : [];
+    return new Map(
+      stored.map(([key, value]) => [JSON.stringify(key), [key, value]]),
+    );
+  }
+
+  private _write(values: Map<string, [string[], unknown]>) {
+    this._writing = this._writing
+      .catch(() => {})
+      .then(async () => {
+        if (await hasFilePermission("write", this._path)) {
+          await writeJsonFile(this._path, [...values.values()]);
+        }
+      });
+    return this._writing;
+  }
+
+  async get(key: string[]): Promise<unknown> {
+    return structuredClone((await this._read()).get(JSON.stringify(key))?.[1]);
+  }
+
+  async set(key: string[], value: unknown) {
+    if (value === undefined) {
+      await this.delete(key);
+      return;
+    }
+    const json = toJson(value);
+    const values = await this._read();
+    values.set(JSON.stringify(key), [key, json]);
+    await this._write(values);
+  }
+
+  async delete(key: string[]) {
+    const values = await this._read();
+    if (values.delete(JSON.stringify(key))) {
+      await this._write(values);
+    }
+  }
+
+  async list(prefix: string[]): Promise<[string[], unknown][]> {
+    return [...(await this._read()).values()]
+      .filter(([key]) => startsWith(key, prefix))
+      .map(([key, value]) => [key, structuredClone(value)]);
+  }
+}
+
+/**
+ * A namespace of persistent values, available as
+ * {@link RoarBot.prototype.storage}. Namespaces can be nested with
+ * {@link BotStorage.prototype.namespace}.
+ * @example
+ * ```ts
+ * bot.command("count", {
+ *   args: [],
+ *   fn: async (reply, _args, post) => {
+ *     const storage = bot.storage.user(post.username);
+ *     const count = ((await storage.get<number>("count")) ?? 0) + 1;
+ *     await storage.set("count", count);
+ *     await reply(`You have counted ${count} times.`);
+ *   },
+ * });
+ * ```
+ */
+export class BotStorage {
+  private _adapter: StorageAdapter;
+  private _prefix: string[];
+
+  /**
+   * Create a storage.
+   * @param adapter Where to keep the values.
+   * @param prefix The key of the namespace.
+   */
+  constructor(adapter: StorageAdapter, prefix: string[] = []) {
+    this._adapter = adapter;
+    this._prefix = prefix;
+  }
+
+  /**
+   * Get a value.
+   * @param key The key of the value.
+   * @returns The value, or `undefined` if there is none.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    return (await this._adapter.get([...this._prefix, key])) as T | undefined;
+  }
+
+  /**
+   * Store a value.
+   * @param key The key of the value.
+   * @param value The value. It has to be serializable as JSON. Storing
+   * `undefined` removes the value.
+   * @throws If the value isn't serializable as JSON.
+   */
+  set<T>(key: string, value: T): Promise<void> {
+    return this._adapter.set([...this._prefix, key], value);
+  }
+
+  /**
+   * Remove a value.
+   * @param key The key of the value.
+   */
+  delete(key: string): Promise<void> {
+    return this._adapter.delete([...this._prefix, key]);
+  }
+
+  /**
+   * Get all values in this namespace. Values in nested namespaces aren't
+   * included.
+   * @returns The keys and values.
+   */
+  async list<T>(): Promise<[string, T][]> {
+    return (await this._adapter.list(this._prefix))
+      .filter(([key]) => key.length === this._prefix.length + 1)
+      .map(([key, value]) => [key.at(-1)!, value as T]);
+  }
+
+  /**
+   * Get a nested namespace.
+   * @param name The name of the namespace.
+   */
+  namespace(name: string): BotStorage {
+    return new BotStorage(this._adapter, [...this._prefix, name]);
+  }
+
+  /**
+   * Get the namespace of a user. This is the namespace `users`, followed by
+   * the lowercase username.
+   * @param username The username of the user.
+   */
+  user(username: string): BotStorage {
+    return this.namespace("users").namespace(username.toLowerCase());
+  }
+
+  /**
+   * Get the namespace of a chat. This is the namespace `chats`, followed by
+   * the chat ID.
+   * @param chat The ID of the chat.
+   */
+  chat(chat: string): BotStorage {
+    return this.namespace("chats").namespace(chat);
+  }
+}
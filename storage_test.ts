@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { BotStorage, FileStorage, MemoryStorage } from "./storage.ts";
+
+Deno.test("BotStorage keeps namespaces apart", async () => {
+  const storage = new BotStorage(new MemoryStorage());
+  await storage.set("count", 1);
+  await storage.user("Josh").set("count", 2);
+  assert.equal(await storage.get("count"), 1);
+  assert.equal(await storage.user("josh").get("count"), 2);
+  assert.deepEqual(await storage.list(), [["count", 1]]);
+});
+
+Deno.test("FileStorage persists values", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/storage.json`;
+  await new FileStorage(path).set(["a", "b"], { count: 1 });
+  assert.deepEqual(await new FileStorage(path).get(["a", "b"]), { count: 1 });
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileStorage ignores invalid files", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/storage.json`;
+  await Deno.writeTextFile(path, `[[["a"], 1]`);
+  const storage = new FileStorage(path);
+  assert.equal(await storage.get(["a"]), undefined);
+  await storage.set(["a"], 2);
+  assert.equal(await new FileStorage(path).get(["a"]), 2);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileStorage keeps concurrent values", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/storage.json`;
+  const storage = new FileStorage(path);
+  const keys = Array.from({ length: 20 }, (_, i) => `${i}`);
+  await Promise.all(keys.map((key) => storage.set([key], key)));
+  assert.equal((await storage.list([])).length, 20);
+  assert.equal((await new FileStorage(path).list([])).length, 20);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("FileStorage ignores files with the wrong format", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/storage.json`;
+  await Deno.writeTextFile(path, "{}");
+  assert.deepEqual(await new FileStorage(path).list([]), []);
+  await Deno.remove(dir, { recursive: true });
+});
+
+Deno.test("Storage adapters handle values that aren't JSON", async () => {
+  const dir = await Deno.makeTempDir();
+  for (const adapter of [
+    new MemoryStorage(),
+    new FileStorage(`${dir}/s.json`),
+  ]) {
+    await adapter.set(["a"], 1);
+    await adapter.set(["a"], undefined);
+    assert.deepEqual(await adapter.list([]), []);
+    await assert.rejects(
+      adapter.set(["b"], () => {}),
+      /serializable as JSON/,
+    );
+    await assert.rejects(adapter.set(["b"], 1n), /serializable as JSON/);
+    await adapter.set(["c"], new Date(0));
+    assert.equal(await adapter.get(["c"]), new Date(0).toISOString());
+  }
+  await Deno.remove(dir, { recursive: true });
+});
@@ -0,0 +1,67 @@
+/**
+ * Calculates the optimal string alignment distance between two strings, which
+ * is the amount of single-character insertions, deletions, substitutions and
+ * swaps of adjacent characters needed to turn one into the other.
+ * @param a The first string.
+ * @param b The second string.
+ */
+export const editDistance = (a: string, b: string): number => {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current.push(
+        Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        ),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const maxDistance = (name: string) =>
+  name.length >= 4 ? Math.min(3, Math.max(2, Math.floor(name.length / 3))) : 1;
+
+/**
+ * Finds the candidates that are close to a word, closest first. Names with at
+ * least 4 characters are close if their distance is at most a third of their
+ * length, but at least 2 and at most 3. Shorter names are close if their
+ * distance is 1.
+ * @param word The word to find candidates for.
+ * @param candidates The candidates.
+ * @param names The names of a candidate. The closest one is used.
+ * @returns The close candidates, with the name that was closest.
+ */
+export const suggest = <T>(
+  word: string,
+  candidates: T[],
+  names: (candidate: T) => string[],
+): { candidate: T; name: string; distance: number }[] =>
+  candidates
+    .map((candidate) =>
+      names(candidate)
+        .map((name) => ({
+          candidate,
+          name,
+          distance: editDistance(word.toLowerCase(), name.toLowerCase()),
+        }))
+        .filter(
+          (suggestion) => suggestion.distance <= maxDistance(suggestion.name),
+        )
+        .reduce<{ candidate: T; name: string; distance: number } | undefined>(
+          (closest, other) =>
+            !closest || other.distance < closest.distance ? other : closest,
+          undefined,
+        ),
+    )
+    .filter((suggestion) => suggestion !== undefined)
+    .sort((a, b) => a.distance - b.distance);
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { editDistance, suggest } from "./suggest.ts";
+
+Deno.test("editDistance counts swaps as one edit", () => {
+  assert.equal(editDistance("help", "help"), 0);
+  assert.equal(editDistance("hlep", "help"), 1);
+  assert.equal(editDistance("ping", "pong"), 1);
+  assert.equal(editDistance("kitten", "sitting"), 3);
+  assert.equal(editDistance("", "ban"), 3);
+});
+
+Deno.test("suggest finds typos of command names", () => {
+  const commands = ["help", "ping", "ban", "unban", "remind"];
+  const suggestions = (word: string) =>
+    suggest(word, commands, (command) => [command]).map(
+      (suggestion) => suggestion.name,
+    );
+  assert.deepEqual(suggestions("hlep"), ["help"]);
+  assert.deepEqual(suggestions("hepl"), ["help"]);
+  assert.deepEqual(suggestions("pnig"), ["ping"]);
+  assert.deepEqual(suggestions("bna"), ["ban"]);
+  assert.deepEqual(suggestions("xyz"), []);
+});
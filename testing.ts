@@ -0,0 +1,440 @@
+/**
+ * Utilities for testing bots made with RoarBot without connecting to the real
+ * Meower servers.
+ *
+ * ```ts
+ * import { RoarBot } from "@mbw/roarbot";
+ * import { FakeMeowerServer } from "@mbw/roarbot/testing";
+ *
+ * const server = new FakeMeowerServer();
+ * const bot = new RoarBot({ transport: server.transport, loggingLevel: "none" });
+ * bot.command("ping", {
+ *   args: [],
+ *   fn: async (reply) => {
+ *     await reply("Pong");
+ *   },
+ * });
+ * await bot.login("BearBot", "········");
+ * await server.connected();
+ *
+ * server.post({ p: "@BearBot ping", u: "Josh" });
+ * const request = await server.waitForRequest("POST", "/home");
+ * console.log(request.body); // { content: "Pong", ... }
+ * ```
+ *
+ * @module
+ */
+
+import type { Post, Transport, User } from "./mod.ts";
+import { JSR_UPDATE_URL, VERSION } from "./types.ts";
+
+/** A request the {@link FakeMeowerServer} received. */
+export type FakeRequest = {
+  /** The HTTP method of the request. */
+  method: string;
+  /** The full URL of the request. */
+  url: string;
+  /** The path of the request, without the query string. */
+  path: string;
+  /** The query parameters of the request. */
+  query: URLSearchParams;
+  /** The headers of the request. */
+  headers: Headers;
+  /**
+   * The body of the request. JSON bodies are parsed, form data is left as is,
+   * and a missing body is `undefined`.
+   */
+  body: unknown;
+};
+
+/**
+ * A function responding to a request. Returning `undefined` passes the request
+ * on to the next handler.
+ */
+export type FakeHandler = (
+  request: FakeRequest,
+) => Response | undefined | Promise<Response | undefined>;
+
+/** Options that can be passed into {@link FakeMeowerServer}. */
+export type FakeMeowerServerOptions = {
+  /**
+   * The token handed out when logging in. By default, this is `"token"`.
+   */
+  token?: string;
+  /**
+   * Whether to send an `auth` packet as soon as a WebSocket connects. By
+   * default, this is true.
+   */
+  autoAuth?: boolean;
+};
+
+/**
+ * An in-memory stand-in for the Meower servers. Pass
+ * {@link FakeMeowerServer.prototype.transport} to a bot to make it talk to this
+ * server instead of the real one.
+ */
+export class FakeMeowerServer {
+  /**
+   * The requests the server has received, in order. The check for RoarBot
+   * updates is answered without being recorded.
+   */
+  requests: FakeRequest[] = [];
+  /** The packets bots have sent over the WebSocket, in order. */
+  sent: unknown[] = [];
+  /**
+   * The token handed out when logging in. WebSockets connecting with any other
+   * token are closed. Change this to simulate an invalidated token.
+   */
+  token: string;
+  private _autoAuth: boolean;
+  private _username?: string;
+  private _sockets: FakeWebSocket[] = [];
+  private _handlers: FakeHandler[] = [];
+  private _requestListeners: ((request: FakeRequest) => void)[] = [];
+  private _connectionListeners: (() => void)[] = [];
+
+  /**
+   * Create a fake server.
+   * @param options Some options. See {@link FakeMeowerServerOptions} for more
+   * details.
+   */
+  constructor(options?: FakeMeowerServerOptions) {
+    this.token = options?.token ?? "token";
+    this._autoAuth = options?.autoAuth ?? true;
+  }
+
+  /**
+   * The transport to pass into the `transport` option of a bot.
+   */
+  get transport(): Transport {
+    return {
+      fetch: async (input, init) => {
+        const request = new Request(input, init);
+        if (request.url === JSR_UPDATE_URL) {
+          // The update check isn't part of the Meower API, so it isn't recorded.
+          return Response.json({ latest: VERSION });
+        }
+        const url = new URL(request.url);
+        const contentType = request.headers.get("Content-Type") ?? "";
+        const body =
+          !request.body ? undefined
+          : contentType.includes("application/json") ? await request.json()
+          : contentType.includes("form-data") ? await request.formData()
+          : await request.text();
+        const fakeRequest: FakeRequest = {
+          method: request.method,
+          url: request.url,
+          path: url.pathname,
+          query: url.searchParams,
+          headers: request.headers,
+          body,
+        };
+        this.requests.push(fakeRequest);
+        this._requestListeners.forEach((listener) => listener(fakeRequest));
+        for (const handler of this._handlers) {
+          const response = await handler(fakeRequest);
+          if (response) {
+            return response;
+          }
+        }
+        return this._defaultResponse(fakeRequest);
+      },
+      webSocket: (url) => {
+        const socket = new FakeWebSocket(url, (data) => {
+          try {
+            this.sent.push(JSON.parse(data));
+          } catch {
+            this.sent.push(data);
+          }
+        });
+        this._sockets.push(socket);
+        setTimeout(() => {
+          if (socket.readyState !== FakeWebSocket.CONNECTING) {
+            return;
+          }
+          socket.readyState = FakeWebSocket.OPEN;
+          socket.dispatchEvent(new Event("open"));
+          if (new URL(url).searchParams.get("token") !== this.token) {
+            socket.close(4000, "Invalid token");
+            return;
+          }
+          if (this._autoAuth) {
+            this.auth();
+          }
+          this._connectionListeners.forEach((listener) => listener());
+          this._connectionListeners = [];
+        });
+        return socket as unknown as WebSocket;
+      },
+    };
+  }
+
+  /** The WebSockets that are currently open. */
+  get sockets(): WebSocket[] {
+    return this._sockets.filter(
+      (socket) => socket.readyState === FakeWebSocket.OPEN,
+    ) as unknown[] as WebSocket[];
+  }
+
+  /**
+   * Add a handler for requests. Handlers are tried in the order they were
+   * added, before the built-in responses.
+   * @param handler The handler.
+   * @example
+   * ```ts
+   * server.respond((request) =>
+   *   request.path === "/home" ?
+   *     Response.json({ error: true, type: "ratelimited" }, { status: 429 })
+   *   : undefined,
+   * );
+   * ```
+   */
+  respond(handler: FakeHandler) {
+    this._handlers.push(handler);
+  }
+
+  /**
+   * Send a packet to every open WebSocket.
+   * @param packet The packet to send. It gets serialized to JSON.
+   */
+  emit(packet: unknown) {
+    const data = JSON.stringify(packet);
+    this.sockets.forEach((socket) =>
+      socket.dispatchEvent(new MessageEvent("message", { data })),
+    );
+  }
+
+  /**
+   * Send an `auth` packet.
+   * @param token The token to send. By default, this is the server's token.
+   */
+  auth(token: string = this.token) {
+    this.emit({ cmd: "auth", val: { token } });
+  }
+
+  /**
+   * Send a new post.
+   * @param post The post. Missing keys are filled with defaults.
+   * @returns The full post.
+   */
+  post(post?: Partial<Post>): Post {
+    const fullPost = fakePost(post);
+    this.emit({ cmd: "post", val: fullPost });
+    return fullPost;
+  }
+
+  /**
+   * Send an edit of a post.
+   * @param post The edited post. Missing keys are filled with defaults.
+   * @returns The full post.
+   */
+  updatePost(post: Partial<Post> & { post_id: string }): Post {
+    const fullPost = fakePost({
+      edited_at: Math.floor(Date.now() / 1000),
+      ...post,
+    });
+    this.emit({ cmd: "update_post", val: fullPost });
+    return fullPost;
+  }
+
+  /**
+   * Send the deletion of a post.
+   * @param id The ID of the deleted post.
+   */
+  deletePost(id: string) {
+    this.emit({ cmd: "delete_post", val: { post_id: id } });
+  }
+
+  /**
+   * Close every open WebSocket, as if the server went down.
+   * @param code The close code.
+   */
+  disconnect(code = 1006) {
+    this.sockets.forEach((socket) => socket.close(code));
+  }
+
+  /**
+   * Wait for the next WebSocket to connect.
+   * @returns A promise that resolves after the connection has opened and the
+   * `auth` packet has been sent, if enabled.
+   */
+  connected(): Promise<void> {
+    return new Promise((resolve) => {
+      this._connectionListeners.push(resolve);
+    });
+  }
+
+  /**
+   * Wait for a request to be made. Requests that have already been made are
+   * not considered.
+   * @param method The HTTP method of the request.
+   * @param path The path of the request, without the query string.
+   * @param timeout How long to wait in milliseconds. By default, this is 1000.
+   * @returns The request.
+   * @throws If no such request is made in time.
+   */
+  waitForRequest(
+    method: string,
+    path: string | RegExp,
+    timeout = 1000,
+  ): Promise<FakeRequest> {
+    return new Promise((resolve, reject) => {
+      const listener = (request: FakeRequest) => {
+        if (
+          request.method === method &&
+          (typeof path === "string" ?
+            request.path === path
+          : path.test(request.path))
+        ) {
+          clearTimeout(timeoutId);
+          this._requestListeners = this._requestListeners.filter(
+            (other) => other !== listener,
+          );
+          resolve(request);
+        }
+      };
+      const timeoutId = setTimeout(() => {
+        this._requestListeners = this._requestListeners.filter(
+          (other) => other !== listener,
+        );
+        reject(new Error(`No ${method} request to ${path} was made.`));
+      }, timeout);
+      this._requestListeners.push(listener);
+    });
+  }
+
+  private _defaultResponse(request: FakeRequest): Response {
+    const body =
+      typeof request.body === "object" && request.body !== null ?
+        (request.body as Record<string, unknown>)
+      : {};
+    if (request.method === "POST" && request.path === "/auth/login") {
+      this._username = String(body.username);
+      return Response.json({ error: false, token: this.token });
+    }
+    if (
+      request.method === "POST" &&
+      (/^\/posts\/[^/]+\/reactions\/[^/]+$/.test(request.path) ||
+        /^\/(home|chats\/[^/]+)\/typing$/.test(request.path))
+    ) {
+      return Response.json({ error: false });
+    }
+    if (
+      request.method === "POST" &&
+      (request.path === "/home" || request.path.startsWith("/posts/"))
+    ) {
+      const post = fakePost({
+        p: String(body.content ?? ""),
+        post_origin: request.path === "/home" ? "home" : request.path.slice(7),
+        u: this._username ?? "Someone",
+      });
+      this.emit({ cmd: "post", val: post });
+      return Response.json({ error: false, ...post });
+    }
+    if (request.method === "PATCH" && request.path === "/posts") {
+      this.updatePost({
+        post_id: request.query.get("id") ?? "",
+        p: String(body.content ?? ""),
+        u: this._username ?? "Someone",
+      });
+      return Response.json({ error: false });
+    }
+    if (request.method === "DELETE" && request.path === "/posts") {
+      this.deletePost(request.query.get("id") ?? "");
+      return Response.json({ error: false });
+    }
+    if (request.method === "GET" && request.path.startsWith("/users/")) {
+      return Response.json({
+        error: false,
+        ...fakeUser(decodeURIComponent(request.path.slice(7))),
+      });
+    }
+    if (request.method === "DELETE" && request.path === "/me/tokens") {
+      return Response.json({ error: false });
+    }
+    if (request.method === "PATCH" && request.path === "/me/config") {
+      return Response.json({ error: false });
+    }
+    if (request.method === "POST" && request.path === "/attachments") {
+      const file =
+        request.body instanceof FormData ? request.body.get("file") : null;
+      return Response.json({
+        filename: file instanceof File ? file.name : "file",
+        id: crypto.randomUUID(),
+      });
+    }
+    return Response.json({ error: true, type: "notFound" }, { status: 404 });
+  }
+}
+
+class FakeWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  readyState: number = FakeWebSocket.CONNECTING;
+
+  constructor(
+    public url: string,
+    private _onSend: (data: string) => void,
+  ) {
+    super();
+  }
+
+  send(data: string) {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error("The WebSocket is not open.");
+    }
+    this._onSend(data);
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === FakeWebSocket.CLOSED) {
+      return;
+    }
+    this.readyState = FakeWebSocket.CLOSED;
+    this.dispatchEvent(new CloseEvent("close", { code, reason }));
+  }
+}
+
+/**
+ * Create a post with sensible defaults.
+ * @param post The keys to override.
+ * @returns The post.
+ */
+export const fakePost = (post?: Partial<Post>): Post => ({
+  attachments: [],
+  isDeleted: false,
+  p: "",
+  post_id: crypto.randomUUID(),
+  post_origin: "home",
+  t: { e: Math.floor(Date.now() / 1000) },
+  type: 1,
+  u: "Someone",
+  reactions: [],
+  reply_to: [],
+  ...post,
+});
+
+/**
+ * Create a user with sensible defaults.
+ * @param username The username of the user.
+ * @param user The keys to override.
+ * @returns The user.
+ */
+export const fakeUser = (username: string, user?: Partial<User>): User => ({
+  _id: username,
+  avatar: "",
+  avatar_color: "000000",
+  banned: false,
+  created: Math.floor(Date.now() / 1000),
+  flags: 0,
+  last_seen: Math.floor(Date.now() / 1000),
+  lower_username: username.toLowerCase(),
+  lvl: 0,
+  permissions: 0,
+  pfp_data: 1,
+  quote: "",
+  uuid: crypto.randomUUID(),
+  ...user,
+});
@@ -0,0 +1,529 @@
+import assert from "node:assert/strict";
+import {
+  MemoryBanStore,
+  MemorySessionStore,
+  MemoryStorage,
+  RoarBot,
+  type Post,
+  type RoarBotOptions,
+  type Transport,
+} from "./mod.ts";
+import { fakePost, FakeMeowerServer } from "./testing.ts";
+
+const createBot = (server: FakeMeowerServer, options?: RoarBotOptions) =>
+  new RoarBot({
+    transport: server.transport,
+    loggingLevel: "none",
+    session: false,
+    bans: new MemoryBanStore(),
+    storage: new MemoryStorage(),
+    rateLimit: { limit: 100 },
+    ...options,
+  });
+
+const failFirstConnection = (server: FakeMeowerServer): Transport => {
+  let failed = false;
+  return {
+    ...server.transport,
+    webSocket: (url) => {
+      const socket = server.transport.webSocket(url);
+      if (!failed) {
+        failed = true;
+        queueMicrotask(() => socket.close(1006));
+      }
+      return socket;
+    },
+  };
+};
+
+const send = async (
+  server: FakeMeowerServer,
+  post: Partial<Post> & { p: string },
+) => {
+  const request = server.waitForRequest("POST", /^\/(home|posts\/[^/]+)$/);
+  server.post({ u: "Josh", ...post });
+  return ((await request).body as { content: string }).content;
+};
+
+Deno.test("FakeMeowerServer runs commands", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("ping", {
+    args: [],
+    fn: async (reply) => {
+      await reply("Pong");
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  server.post({ p: "@BearBot ping", u: "Josh" });
+  const request = await server.waitForRequest("POST", "/home");
+  assert.equal((request.body as { content: string }).content, "Pong");
+  await bot.stop();
+});
+
+Deno.test("FakeMeowerServer doesn't record the update check", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  await bot.login("BearBot", "password");
+  await server.connected();
+  assert.deepEqual(
+    server.requests.map((request) => request.path),
+    ["/auth/login"],
+  );
+  await bot.stop();
+});
+
+Deno.test("RoarBot keeps the order of posts with attachments", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  server.respond(async (request) => {
+    if (request.path === "/attachments") {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    return undefined;
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  await Promise.all([
+    bot.post("first", { attachments: [new Blob(["file"])] }),
+    bot.post("second"),
+  ]);
+  assert.deepEqual(
+    server.requests
+      .filter((request) => request.path === "/home")
+      .map((request) => (request.body as { content: string }).content),
+    ["first", "second"],
+  );
+  await bot.stop();
+});
+
+Deno.test("RoarBot reconnects with increasing delays", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server, {
+    reconnect: { baseDelay: 10, jitter: 0 },
+  });
+  const delays: number[] = [];
+  bot.on("reconnecting", (_attempt, delay) => delays.push(delay));
+  await bot.login("BearBot", "password");
+  await server.connected();
+  server.token = "new token";
+  const reconnected = bot.waitFor("reconnected", undefined, { timeout: 1000 });
+  server.disconnect();
+  assert.notEqual(await reconnected, null);
+  assert.deepEqual(delays, [10, 20]);
+  assert.equal(bot.status, "connected");
+  await bot.stop();
+});
+
+Deno.test("RoarBot keeps its token when a connection fails", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server, {
+    transport: failFirstConnection(server),
+    reconnect: { baseDelay: 10 },
+  });
+  const reconnected = bot.waitFor("reconnected", undefined, { timeout: 1000 });
+  bot.loginWithToken("BearBot", server.token);
+  assert.notEqual(await reconnected, null);
+  assert.equal(server.requests.length, 0);
+  await bot.stop();
+});
+
+Deno.test("RoarBot keeps its session when a connection fails", async () => {
+  const server = new FakeMeowerServer();
+  const session = new MemorySessionStore();
+  await session.set("BearBot", server.token);
+  const bot = createBot(server, {
+    transport: failFirstConnection(server),
+    session,
+    reconnect: { baseDelay: 10 },
+  });
+  const reconnected = bot.waitFor("reconnected", undefined, { timeout: 1000 });
+  await bot.login("BearBot", "password");
+  assert.notEqual(await reconnected, null);
+  assert.equal(server.requests.length, 0);
+  assert.equal(await session.get("BearBot"), server.token);
+  await bot.stop();
+});
+
+Deno.test("RoarBot gives up reconnecting after maxAttempts", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server, {
+    reconnect: { maxAttempts: 0 },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  const failed = bot.waitFor("reconnectFailed", undefined, { timeout: 1000 });
+  server.disconnect();
+  assert.notEqual(await failed, null);
+  assert.equal(bot.status, "disconnected");
+  await bot.stop();
+});
+
+Deno.test(
+  "Chat administrators can only change roles in their chat",
+  async () => {
+    const server = new FakeMeowerServer();
+    const bot = createBot(server, {
+      roleCommands: true,
+      chatRoleAssignments: { chatX: { Mallory: ["admin"] } },
+    });
+    await bot.login("BearBot", "password");
+    await server.connected();
+    server.post({
+      p: "@BearBot role grant Mallory admin",
+      u: "Mallory",
+      post_origin: "chatX",
+    });
+    await server.waitForRequest("POST", "/posts/chatX");
+    assert.deepEqual(bot.getRoles("Mallory"), []);
+    server.post({
+      p: "@BearBot role grant @Josh admin --here",
+      u: "Mallory",
+      post_origin: "chatX",
+    });
+    await server.waitForRequest("POST", "/posts/chatX");
+    assert.deepEqual(bot.getRoles("Josh"), []);
+    assert.deepEqual(bot.getRoles("Josh", "chatX"), ["admin"]);
+    await bot.stop();
+  },
+);
+
+Deno.test("Ban commands accept mentions", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server, {
+    banCommands: true,
+    roleAssignments: { Bear: ["admin"] },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  server.post({ p: "@BearBot ban @Spammer", u: "Bear" });
+  const request = await server.waitForRequest("POST", "/home");
+  assert.equal(
+    (request.body as { content: string }).content,
+    "Banned Spammer.",
+  );
+  assert.equal((await bot.getBan("Spammer"))?.username, "Spammer");
+  await bot.stop();
+});
+
+Deno.test("RoarBot stops waiting for events when stopped", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  await bot.login("BearBot", "password");
+  await server.connected();
+  const deleted = bot.waitFor("deletePost");
+  const shutdown = bot.waitFor("shutdown");
+  await bot.stop();
+  assert.equal(await deleted, null);
+  assert.deepEqual(await shutdown, []);
+});
+
+Deno.test("Prompts don't time out when the bot stops", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("age", {
+    args: [],
+    fn: async (_reply, _args, post) => {
+      await post.prompt("How old are you?", ["integer"]);
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  server.post({ p: "@BearBot age", u: "Josh" });
+  await server.waitForRequest("POST", "/home");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  await bot.stop();
+  assert.deepEqual(
+    server.requests
+      .filter((request) => request.path === "/home")
+      .map((request) => (request.body as { content: string }).content),
+    ["How old are you?"],
+  );
+});
+
+Deno.test("Commands reply when they are on cooldown", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("ping", {
+    args: [],
+    cooldown: { duration: 60000 },
+    fn: async (reply) => {
+      await reply("Pong");
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  assert.equal(await send(server, { p: "@BearBot ping" }), "Pong");
+  assert.equal(
+    await send(server, { p: "@BearBot ping" }),
+    "Please wait 1m before using this command again.",
+  );
+  assert.equal(await send(server, { p: "@BearBot ping", u: "Bear" }), "Pong");
+  await bot.stop();
+});
+
+Deno.test("Command groups route to their subcommands", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  const config = bot.group("config", { description: "Manage settings." });
+  config.command("set", {
+    args: ["string", { type: "full", name: "value" }],
+    fn: async (reply, [key, value]) => {
+      await reply(`Set ${key} to ${value}.`);
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  assert.equal(
+    await send(server, { p: "@BearBot config set prefix !" }),
+    "Set prefix to !.",
+  );
+  const help = [
+    "## config",
+    "_Manage settings._",
+    "@BearBot config <subcommand>",
+    "↳ @BearBot config set (string) <value: full string>",
+  ].join("\n");
+  assert.equal(await send(server, { p: "@BearBot help config" }), help);
+  assert.equal(await send(server, { p: "@BearBot config" }), help);
+  await bot.stop();
+});
+
+Deno.test(
+  "Commands can be used with prefixes and without mentions",
+  async () => {
+    const server = new FakeMeowerServer();
+    const bot = createBot(server, {
+      prefixes: ["!"],
+      chatPrefixes: { chatX: ["?"] },
+      mentionlessChats: ["chatY"],
+    });
+    bot.command("add", {
+      args: ["number", "number"],
+      fn: async (reply, [a, b]) => {
+        await reply(`${a + b}`);
+      },
+    });
+    await bot.login("BearBot", "password");
+    await server.connected();
+    assert.equal(await send(server, { p: "!add 1 2" }), "3");
+    server.post({ p: "!add 1 2", u: "Josh", post_origin: "chatX" });
+    assert.equal(
+      await send(server, { p: "?add 2 2", post_origin: "chatX" }),
+      "4",
+    );
+    bot.setChatPrefixes("chatX", undefined);
+    assert.equal(
+      await send(server, { p: "!add 3 2", post_origin: "chatX" }),
+      "5",
+    );
+    server.post({ p: "Hello there", u: "Josh", post_origin: "chatY" });
+    assert.equal(
+      await send(server, { p: "add 3 3", post_origin: "chatY" }),
+      "6",
+    );
+    assert.equal(
+      await send(server, { p: "@BearBot add 3 4", post_origin: "chatY" }),
+      "7",
+    );
+    await bot.stop();
+  },
+);
+
+Deno.test("Commands show their usage on invalid arguments", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("add", {
+    description: "Adds two numbers.",
+    aliases: ["sum"],
+    examples: ["add 1 2"],
+    args: ["number", "number"],
+    fn: async (reply, [a, b]) => {
+      await reply(`${a + b}`);
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  assert.equal(
+    await send(server, { p: "@BearBot add 1" }),
+    "Missing number.\nUsage: @BearBot add (number) (number)",
+  );
+  assert.equal(
+    await send(server, { p: "@BearBot help sum" }),
+    [
+      "## add",
+      "_Adds two numbers._",
+      "@BearBot add (number) (number)",
+      "Aliases: sum",
+      "Examples:",
+      "- @BearBot add 1 2",
+    ].join("\n"),
+  );
+  await bot.stop();
+});
+
+Deno.test("Help pages can be navigated by replying", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server, { help: { pageSize: 1, navigation: true } });
+  bot.command("ping", {
+    description: "Pong.",
+    args: [],
+    fn: async (reply) => {
+      await reply("Pong");
+    },
+  });
+  const helpPost = fakePost({ post_id: "help" });
+  server.respond((request) =>
+    (
+      request.path === "/home" &&
+      (request.body as { content: string }).content.startsWith("## Commands")
+    ) ?
+      Response.json({ error: false, ...helpPost })
+    : undefined,
+  );
+  await bot.login("BearBot", "password");
+  await server.connected();
+  const page = (number: number, commands: string[]) =>
+    [
+      "## Commands",
+      ...commands,
+      "",
+      `_Page ${number} of 2_`,
+      "_Reply with next, previous or a page number to switch pages._",
+    ].join("\n");
+  const nextTick = () => new Promise((resolve) => setTimeout(resolve, 10));
+  assert.equal(
+    await send(server, { p: "@BearBot help" }),
+    page(1, ["@BearBot help [command: full string]", "_Shows this message._"]),
+  );
+  await nextTick();
+  assert.equal(
+    await send(server, { p: "next", reply_to: [helpPost] }),
+    page(2, ["@BearBot ping", "_Pong._"]),
+  );
+  await nextTick();
+  assert.equal(
+    await send(server, { p: "1", reply_to: [helpPost] }),
+    page(1, ["@BearBot help [command: full string]", "_Shows this message._"]),
+  );
+  assert.equal(
+    await send(server, { p: "@BearBot help 3" }),
+    "There is no page 3.",
+  );
+  await bot.stop();
+});
+
+Deno.test("Middleware runs in order and can stop commands", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  const calls: string[] = [];
+  let done = Promise.withResolvers<void>();
+  bot.use(async ({ command, args, data }, next) => {
+    calls.push(`first ${command.name} ${JSON.stringify(args)}`);
+    data.greeting = "Hi";
+    await next();
+    calls.push("first done");
+    done.resolve();
+  });
+  bot.use(async ({ post, reply, data }, next) => {
+    calls.push(`second ${data.greeting}`);
+    if (post.content.includes("secret")) {
+      await reply("Nope.");
+      return;
+    }
+    await next();
+  });
+  bot.command("echo", {
+    args: [{ type: "full", name: "text" }],
+    fn: async (reply, [text]) => {
+      calls.push("command");
+      await reply(text);
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  assert.equal(await send(server, { p: "@BearBot echo hello" }), "hello");
+  await done.promise;
+  assert.deepEqual(calls, [
+    'first echo ["hello"]',
+    "second Hi",
+    "command",
+    "first done",
+  ]);
+  calls.length = 0;
+  done = Promise.withResolvers();
+  assert.equal(await send(server, { p: "@BearBot echo secret" }), "Nope.");
+  await done.promise;
+  assert.deepEqual(calls, ['first echo ["secret"]', "second Hi", "first done"]);
+  await bot.stop();
+});
+
+Deno.test("Commands using run get a context", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("count", {
+    args: ["integer"],
+    flags: { loud: { short: "l" } },
+    run: async ({ args: [by], flags, chat, react, storage, reply }) => {
+      const count = ((await storage.chat.get<number>("count")) ?? 0) + by;
+      await storage.chat.set("count", count);
+      await react("👍");
+      await reply(flags.loud ? `${count} in ${chat}!` : `${count}`);
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  const reaction = server.waitForRequest(
+    "POST",
+    /^\/posts\/[^/]+\/reactions\/%F0%9F%91%8D$/,
+  );
+  assert.equal(
+    await send(server, { p: "@BearBot count 2", post_origin: "chatX" }),
+    "2",
+  );
+  await reaction;
+  assert.equal(
+    await send(server, { p: "@BearBot count 3 -l", post_origin: "chatX" }),
+    "5 in chatX!",
+  );
+  assert.equal(await bot.storage.chat("chatX").get("count"), 5);
+  await bot.stop();
+});
+
+Deno.test("Dialogs ask questions until they are answered", async () => {
+  const server = new FakeMeowerServer();
+  const bot = createBot(server);
+  bot.command("profile", {
+    args: [],
+    fn: async (reply, _args, post) => {
+      const answers = await post.dialog([
+        { key: "name", question: "What's your name?", arg: "full" },
+        { key: "age", question: "How old are you?", arg: "integer" },
+      ]);
+      if (answers) {
+        await reply(`${answers.name} is ${answers.age} years old.`);
+      }
+    },
+  });
+  await bot.login("BearBot", "password");
+  await server.connected();
+  // The bot only waits for an answer once its question has been posted.
+  const answer = async (content: string) => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return await send(server, { p: content });
+  };
+  assert.equal(
+    await send(server, { p: "@BearBot profile" }),
+    "What's your name?",
+  );
+  assert.equal(await answer("Josh"), "How old are you?");
+  assert.equal(await answer("old"), '"old" is not a whole number.');
+  assert.equal(await answer("12"), "Josh is 12 years old.");
+  assert.equal(
+    await send(server, { p: "@BearBot profile" }),
+    "What's your name?",
+  );
+  assert.equal(await answer("Cancel"), "Cancelled.");
+  await bot.stop();
+});
@@ -1,5 +1,8 @@
 import { z } from "npm:zod@3";
 
+export const VERSION = "1.8.2";
+export const JSR_UPDATE_URL = "https://jsr.io/@mbw/roarbot/meta.json";
+
 export const JSR_UPDATE = z.object({
   latest: z.string(),
 });
@@ -171,3 +174,15 @@ export const USER_SCHEMA: z.ZodType<User> = z.object({
 export const API_USER_SCHEMA = USER_SCHEMA.and(
   z.object({ error: z.literal(false) }),
 ).or(z.object({ error: z.literal(true), type: z.string() }));
+
+export const STORAGE_FILE_SCHEMA = z.array(
+  z.tuple([z.array(z.string()), z.unknown()]),
+);
+
+export const BANS_FILE_SCHEMA = z.array(
+  z.object({
+    username: z.string(),
+    until: z.number().nullable(),
+    reason: z.string().nullable(),
+  }),
+);